@@ -0,0 +1,116 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import AuthLayout from '@/app/(auth)/_layout';
+import LoginScreen from '@/app/(auth)/login';
+import RegisterScreen from '@/app/(auth)/register';
+import { AuthProvider } from '@/contexts/AuthContext';
+import { ConnectivityProvider } from '@/contexts/ConnectivityContext';
+import { MemoryAnalyticsSink } from '@/mocks/memoryAnalyticsSink';
+import { DEFAULT_MOCK_USER } from '@/mocks/mockAuthServer';
+import { MockConnectivitySource } from '@/mocks/mockConnectivity';
+import { analytics } from '@/services/analytics';
+import { ConnectivityMonitor } from '@/services/connectivity';
+
+jest.mock('@/services/tokenStore', () => {
+  const { MemoryTokenStore } = require('@/mocks/memoryTokenStore');
+  return { tokenStore: new MemoryTokenStore() };
+});
+
+jest.mock('@/services/deviceInfo', () => ({
+  getDeviceInfo: jest.fn(async () => ({ deviceId: 'test-device', deviceName: 'Test Phone', platform: 'ios' })),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => require('crypto').randomUUID(),
+}));
+
+jest.mock('@/services/authBackend', () => {
+  const { createMockAdapter } = require('@/mocks/mockAdapter');
+  const { MockAuthServer } = require('@/mocks/mockAuthServer');
+  const { AuthService } = require('@/services/authService');
+  return {
+    authBackendType: 'mock',
+    authBackend: new AuthService({ adapter: createMockAdapter(new MockAuthServer()), logRetries: false }),
+  };
+});
+
+// The provider flows open native sign-in sheets, which don't exist under Jest
+jest.mock('@/components/SocialSignInButtons', () => ({ SocialSignInButtons: () => null }));
+
+// The screen under test, shown by the (auth) layout's stack
+let mockScreen: React.ReactElement | null = null;
+
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: jest.fn(), replace: jest.fn(), back: jest.fn() }),
+  Stack: Object.assign(() => mockScreen, { Screen: () => null }),
+}));
+
+let tree: renderer.ReactTestRenderer | null = null;
+
+const renderAuthScreen = async (screen: React.ReactElement) => {
+  mockScreen = screen;
+  await act(async () => {
+    tree = renderer.create(
+      <ConnectivityProvider monitor={new ConnectivityMonitor(new MockConnectivitySource())}>
+        <AuthProvider>
+          <AuthLayout />
+        </AuthProvider>
+      </ConnectivityProvider>
+    );
+  });
+};
+
+const findInput = (placeholder: string) => tree!.root.findAllByProps({ placeholder })[0];
+
+const typeInto = async (placeholder: string, text: string) => {
+  await act(async () => {
+    findInput(placeholder).props.onChangeText(text);
+    findInput(placeholder).props.onBlur();
+  });
+};
+
+const press = async (title: string) => {
+  await act(async () => {
+    tree!.root.findAllByProps({ title })[0].props.onPress();
+  });
+};
+
+describe('auth screens', () => {
+  beforeAll(() => {
+    // The mock backend logs the links it "emails"
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    act(() => tree?.unmount());
+    tree = null;
+  });
+
+  it('keeps server field errors on the form after a failed submit', async () => {
+    await renderAuthScreen(<RegisterScreen />);
+
+    await typeInto('Email address', DEFAULT_MOCK_USER.email);
+    await typeInto('Password', 'Password123!');
+    await typeInto('Confirm Password', 'Password123!');
+    await press('Create Account');
+
+    expect(findInput('Email address').props.error).toBe(true);
+    expect(tree!.root.findAllByProps({ children: 'An account with this email already exists' }).length).toBeGreaterThan(0);
+  });
+
+  it('tracks one funnel start across a failed sign-in', async () => {
+    const sink = new MemoryAnalyticsSink();
+    const removeSink = analytics.addSink(sink);
+    await renderAuthScreen(<LoginScreen />);
+
+    await typeInto('Email address', DEFAULT_MOCK_USER.email);
+    await typeInto('Password', 'wrong-password');
+    await press('Sign In');
+    await typeInto('Password', DEFAULT_MOCK_USER.password);
+    removeSink();
+
+    expect(sink.names.filter((name) => name === 'auth_form_started')).toHaveLength(1);
+    expect(sink.names).toContain('auth_form_failed');
+  });
+});
@@ -25,6 +25,20 @@ export default function AuthLayout() {
           title: 'Register',
         }}
       />
+      <Stack.Screen
+        name="mfa"
+        options={{
+          headerShown: false,
+          title: 'Two-Factor Authentication',
+        }}
+      />
+      <Stack.Screen
+        name="link-account"
+        options={{
+          headerShown: false,
+          title: 'Link Account',
+        }}
+      />
       <Stack.Screen
         name="forgot-password"
         options={{
@@ -32,6 +46,20 @@ export default function AuthLayout() {
           title: 'Reset Password',
         }}
       />
+      <Stack.Screen
+        name="reset-password"
+        options={{
+          headerShown: false,
+          title: 'Choose New Password',
+        }}
+      />
+      <Stack.Screen
+        name="verify-email"
+        options={{
+          headerShown: false,
+          title: 'Verify Email',
+        }}
+      />
     </Stack>
   );
 }
\ No newline at end of file
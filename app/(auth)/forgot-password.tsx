@@ -1,16 +1,21 @@
 import { useState } from 'react';
-import { StyleSheet, Alert, TextInput } from 'react-native';
+import { StyleSheet, TextInput } from 'react-native';
 import { useRouter } from 'expo-router';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm, Controller } from 'react-hook-form';
 import * as z from 'zod';
 import * as Haptics from 'expo-haptics';
 
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedTextInput } from '@/components/ThemedTextInput';
 import { ThemedButton } from '@/components/ThemedButton';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAuthFunnel } from '@/hooks/useAuthFunnel';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { applyFieldErrors } from '@/utils/forms';
 
 // Form validation schema
 const forgotPasswordSchema = z.object({
@@ -23,16 +28,19 @@ export default function ForgotPasswordScreen() {
   const router = useRouter();
   const { resetPassword, isLoading, error, clearError } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const retryCooldown = useCooldown();
   const [emailSent, setEmailSent] = useState(false);
 
   const {
     control,
     handleSubmit,
-    formState: { errors, isValid },
+    setError: setFieldError,
+    formState: { errors, isValid, isDirty, touchedFields },
   } = useForm<ForgotPasswordFormData>({
     resolver: zodResolver(forgotPasswordSchema),
     mode: 'onChange',
   });
+  const funnel = useAuthFunnel('forgot_password', { errors, isDirty, touchedFields });
 
   const handleResetPassword = async (data: ForgotPasswordFormData) => {
     try {
@@ -42,18 +50,25 @@ export default function ForgotPasswordScreen() {
       // Haptic feedback for button press
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
+      funnel.submitted();
       await resetPassword(data.email);
+      funnel.succeeded();
 
       // Success haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
       setEmailSent(true);
     } catch (resetError) {
+      funnel.failed(resetError);
+
       // Error haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
 
-      const errorMessage = resetError instanceof Error ? resetError.message : 'Password reset failed';
-      Alert.alert('Reset Error', errorMessage);
+      // The error itself is shown from the auth context; route field errors to their inputs
+      applyFieldErrors(resetError, setFieldError, ['email']);
+      if (isAuthError(resetError) && resetError.code === 'RATE_LIMITED') {
+        retryCooldown.start(resetError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -108,11 +123,11 @@ export default function ForgotPasswordScreen() {
           Enter your email address and we'll send you instructions to reset your password.
         </ThemedText>
 
-        {error && (
-          <ThemedView style={styles.errorContainer}>
-            <ThemedText style={styles.errorText}>{error}</ThemedText>
-          </ThemedView>
-        )}
+        <AuthErrorBanner
+          error={error}
+          cooldown={retryCooldown.remaining}
+          onRetry={handleSubmit(handleResetPassword)}
+        />
 
         <Controller
           control={control}
@@ -141,7 +156,7 @@ export default function ForgotPasswordScreen() {
           title={isSubmitting ? 'Sending...' : 'Send Reset Email'}
           onPress={handleSubmit(handleResetPassword)}
           loading={isSubmitting}
-          disabled={!isValid || isLoading || isSubmitting}
+          disabled={!isValid || isLoading || isSubmitting || retryCooldown.isActive}
           style={styles.resetButton}
         />
 
@@ -196,14 +211,6 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     opacity: 0.8,
   },
-  errorContainer: {
-    backgroundColor: '#ff444420',
-    borderColor: '#ff4444',
-    borderWidth: 1,
-    borderRadius: 8,
-    padding: 12,
-    marginBottom: 16,
-  },
   errorText: {
     color: '#ff4444',
     fontSize: 14,
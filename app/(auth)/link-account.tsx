@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Redirect, useRouter } from 'expo-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, Controller } from 'react-hook-form';
+import * as z from 'zod';
+import * as Haptics from 'expo-haptics';
+
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedButton } from '@/components/ThemedButton';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { SOCIAL_PROVIDER_NAMES } from '@/services/socialAuth';
+import { applyFieldErrors } from '@/utils/forms';
+
+// Form validation schema
+const linkAccountSchema = z.object({
+  password: z.string().min(1, 'Please enter your password'),
+});
+
+type LinkAccountFormData = z.infer<typeof linkAccountSchema>;
+
+export default function LinkAccountScreen() {
+  const router = useRouter();
+  const { pendingProviderLink, linkProvider, cancelProviderLink, error, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const retryCooldown = useCooldown();
+
+  const {
+    control,
+    handleSubmit,
+    setError: setFieldError,
+    formState: { errors, isValid },
+  } = useForm<LinkAccountFormData>({
+    resolver: zodResolver(linkAccountSchema),
+    mode: 'onChange',
+  });
+
+  // Nothing to link, e.g. after a reload
+  if (!pendingProviderLink) {
+    return <Redirect href="/login" />;
+  }
+
+  const providerName = SOCIAL_PROVIDER_NAMES[pendingProviderLink.credential.provider];
+
+  const handleLinkAccount = async (data: LinkAccountFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+
+      // Haptic feedback for button press
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await linkProvider(data.password);
+
+      // Success haptic feedback
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      // Navigation to main app will be handled by the root layout
+    } catch (linkError) {
+      // Error haptic feedback
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      // The error itself is shown from the auth context; route field errors to their inputs
+      applyFieldErrors(linkError, setFieldError, ['password']);
+      if (isAuthError(linkError) && linkError.code === 'RATE_LIMITED') {
+        retryCooldown.start(linkError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    cancelProviderLink();
+    router.replace('/login');
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <ThemedText style={styles.title} type="title">
+          Link Your Account
+        </ThemedText>
+
+        <ThemedText style={styles.subtitle}>
+          You already have an account with {pendingProviderLink.email}. Enter its password to link{' '}
+          {providerName} sign-in to it.
+        </ThemedText>
+
+        <AuthErrorBanner
+          error={error?.code === 'ACCOUNT_EXISTS' ? null : error}
+          cooldown={retryCooldown.remaining}
+          onRetry={handleSubmit(handleLinkAccount)}
+        />
+
+        <Controller
+          control={control}
+          name="password"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <ThemedTextInput
+              placeholder="Password"
+              secureTextEntry
+              onBlur={onBlur}
+              onChangeText={onChange}
+              value={value}
+              error={!!errors.password}
+              editable={!isSubmitting}
+            />
+          )}
+        />
+
+        {errors.password && (
+          <ThemedText style={styles.errorText}>{errors.password.message}</ThemedText>
+        )}
+
+        <ThemedButton
+          title={isSubmitting ? 'Linking...' : `Link ${providerName} and Sign In`}
+          onPress={handleSubmit(handleLinkAccount)}
+          loading={isSubmitting}
+          disabled={!isValid || isSubmitting || retryCooldown.isActive}
+          style={styles.linkButton}
+        />
+
+        <ThemedButton
+          title="Cancel"
+          onPress={handleCancel}
+          variant="secondary"
+          disabled={isSubmitting}
+        />
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  linkButton: {
+    marginTop: 16,
+  },
+});
@@ -1,16 +1,23 @@
 import { useState } from 'react';
-import { StyleSheet, Alert } from 'react-native';
+import { StyleSheet } from 'react-native';
 import { useRouter } from 'expo-router';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm, Controller } from 'react-hook-form';
 import * as z from 'zod';
 import * as Haptics from 'expo-haptics';
 
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedTextInput } from '@/components/ThemedTextInput';
 import { ThemedButton } from '@/components/ThemedButton';
+import { SocialSignInButtons } from '@/components/SocialSignInButtons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAuthFunnel } from '@/hooks/useAuthFunnel';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { ProviderLoginRequest } from '@/services/authTypes';
+import { applyFieldErrors } from '@/utils/forms';
 
 // Form validation schema
 const loginSchema = z.object({
@@ -22,17 +29,21 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { login, isLoading, error, clearError } = useAuth();
+  const { login, loginWithProvider, isAddingAccount, cancelAddAccount, isLoading, error, clearError } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const retryCooldown = useCooldown();
 
   const {
     control,
     handleSubmit,
-    formState: { errors, isValid },
+    getValues,
+    setError: setFieldError,
+    formState: { errors, isValid, isDirty, touchedFields },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     mode: 'onChange',
   });
+  const funnel = useAuthFunnel('login', { errors, isDirty, touchedFields });
 
   const handleLogin = async (data: LoginFormData) => {
     try {
@@ -42,18 +53,56 @@ export default function LoginScreen() {
       // Haptic feedback for button press
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      await login(data);
+      funnel.submitted({ method: 'password' });
+      if ((await login(data)) === 'mfa_required') {
+        funnel.mfaRequired({ method: 'password' });
+      } else {
+        funnel.succeeded({ method: 'password' });
+      }
 
       // Success haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
       // Navigation to main app will be handled by the root layout
     } catch (loginError) {
+      funnel.failed(loginError, { method: 'password' });
+
       // Error haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
 
-      const errorMessage = loginError instanceof Error ? loginError.message : 'Login failed';
-      Alert.alert('Login Error', errorMessage);
+      // The error itself is shown from the auth context; route field errors to their inputs
+      applyFieldErrors(loginError, setFieldError, ['email', 'password']);
+      if (isAuthError(loginError) && loginError.code === 'RATE_LIMITED') {
+        retryCooldown.start(loginError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleProviderLogin = async (credential: ProviderLoginRequest) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      funnel.submitted({ method: credential.provider });
+      if ((await loginWithProvider(credential)) === 'mfa_required') {
+        funnel.mfaRequired({ method: credential.provider });
+      } else {
+        funnel.succeeded({ method: credential.provider });
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // Navigation to main app will be handled by the root layout
+    } catch (providerError) {
+      funnel.failed(providerError, { method: credential.provider });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      // The email belongs to an existing account, so ask for its password to link the two
+      if (isAuthError(providerError) && providerError.code === 'ACCOUNT_EXISTS') {
+        router.push('/link-account');
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -64,26 +113,46 @@ export default function LoginScreen() {
     router.replace('/register');
   };
 
+  const navigateToVerifyEmail = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.replace({ pathname: '/verify-email', params: { email: getValues('email') } });
+  };
+
   const navigateToForgotPassword = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     router.replace('/forgot-password');
   };
 
+  const handleCancelAddAccount = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Navigation back to the active account will be handled by the root layout
+    cancelAddAccount();
+  };
+
   return (
     <ThemedView style={styles.container}>
       <ThemedView style={styles.content}>
         <ThemedText style={styles.title} type="title">
-          Welcome Back
+          {isAddingAccount ? 'Add Account' : 'Welcome Back'}
         </ThemedText>
 
         <ThemedText style={styles.subtitle} type="subtitle">
-          Sign in to your account
+          {isAddingAccount ? 'Sign in to another account' : 'Sign in to your account'}
         </ThemedText>
 
-        {error && (
-          <ThemedView style={styles.errorContainer}>
-            <ThemedText style={styles.errorText}>{error}</ThemedText>
-          </ThemedView>
+        <AuthErrorBanner
+          error={error}
+          cooldown={retryCooldown.remaining}
+          onRetry={handleSubmit(handleLogin)}
+        />
+
+        {error?.code === 'EMAIL_NOT_VERIFIED' && (
+          <ThemedButton
+            title="Resend Verification Email"
+            onPress={navigateToVerifyEmail}
+            variant="secondary"
+            style={styles.verifyButton}
+          />
         )}
 
         <Controller
@@ -132,7 +201,7 @@ export default function LoginScreen() {
           title={isSubmitting ? 'Signing In...' : 'Sign In'}
           onPress={handleSubmit(handleLogin)}
           loading={isSubmitting}
-          disabled={!isValid || isLoading || isSubmitting}
+          disabled={!isValid || isLoading || isSubmitting || retryCooldown.isActive}
           style={styles.loginButton}
         />
 
@@ -143,6 +212,18 @@ export default function LoginScreen() {
           disabled={isLoading || isSubmitting}
         />
 
+        <SocialSignInButtons onCredential={handleProviderLogin} disabled={isLoading || isSubmitting} />
+
+        {isAddingAccount && (
+          <ThemedButton
+            title="Cancel"
+            onPress={handleCancelAddAccount}
+            variant="secondary"
+            disabled={isLoading || isSubmitting}
+            style={styles.cancelButton}
+          />
+        )}
+
         <ThemedView style={styles.registerContainer}>
           <ThemedText style={styles.registerText}>
             Don't have an account?{' '}
@@ -180,22 +261,21 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     opacity: 0.7,
   },
-  errorContainer: {
-    backgroundColor: '#ff444420',
-    borderColor: '#ff4444',
-    borderWidth: 1,
-    borderRadius: 8,
-    padding: 12,
-    marginBottom: 16,
-  },
   errorText: {
     color: '#ff4444',
     fontSize: 14,
     marginBottom: 8,
   },
+  verifyButton: {
+    marginTop: 0,
+    marginBottom: 16,
+  },
   loginButton: {
     marginTop: 16,
   },
+  cancelButton: {
+    marginTop: 16,
+  },
   registerContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Redirect, useRouter } from 'expo-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, Controller } from 'react-hook-form';
+import * as z from 'zod';
+import * as Haptics from 'expo-haptics';
+
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedButton } from '@/components/ThemedButton';
+import { MFA_SMS_RESEND_COOLDOWN_SECONDS } from '@/constants/Auth';
+import { useAuth } from '@/contexts/AuthContext';
+import { createAuthFunnel } from '@/hooks/useAuthFunnel';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { VerifyMfaRequest } from '@/services/authTypes';
+import { applyFieldErrors } from '@/utils/forms';
+
+type VerificationMethod = VerifyMfaRequest['method'];
+
+const METHOD_LABELS: Record<VerificationMethod, string> = {
+  totp: 'Use your authenticator app',
+  sms: 'Text me a code',
+  backup_code: 'Use a backup code',
+};
+
+// Form validation schema
+const mfaSchema = z.object({
+  code: z.string().trim().min(6, 'Please enter the code'),
+});
+
+type MfaFormData = z.infer<typeof mfaSchema>;
+
+// The login screen tracked the sign-in up to the second factor; it succeeds or fails here
+const loginFunnel = createAuthFunnel('login');
+
+export default function MfaScreen() {
+  const router = useRouter();
+  const { mfaChallenge, verifyMfa, sendMfaSmsCode, cancelMfa, error, clearError } = useAuth();
+  const [method, setMethod] = useState<VerificationMethod>(mfaChallenge?.methods[0] ?? 'totp');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const resendCooldown = useCooldown();
+  const retryCooldown = useCooldown();
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError: setFieldError,
+    formState: { errors, isValid },
+  } = useForm<MfaFormData>({
+    resolver: zodResolver(mfaSchema),
+    mode: 'onChange',
+  });
+
+  // The challenge is gone, e.g. after it expired; the root layout returns to login
+  if (!mfaChallenge) {
+    return <Redirect href="/login" />;
+  }
+
+  const handleVerify = async (data: MfaFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+
+      // Haptic feedback for button press
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await verifyMfa(data.code, method);
+      loginFunnel.succeeded({ mfaMethod: method });
+
+      // Success haptic feedback
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      // Navigation to main app will be handled by the root layout
+    } catch (verifyError) {
+      loginFunnel.failed(verifyError, { mfaMethod: method });
+
+      // Error haptic feedback
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      // The error itself is shown from the auth context; route field errors to their inputs
+      applyFieldErrors(verifyError, setFieldError, ['code']);
+      if (isAuthError(verifyError) && verifyError.code === 'RATE_LIMITED') {
+        retryCooldown.start(verifyError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    try {
+      setIsSending(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await sendMfaSmsCode();
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCodeSent(true);
+      resendCooldown.start(MFA_SMS_RESEND_COOLDOWN_SECONDS);
+    } catch (sendError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      if (isAuthError(sendError) && sendError.code === 'RATE_LIMITED') {
+        resendCooldown.start(sendError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const switchMethod = (nextMethod: VerificationMethod) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    reset();
+    setMethod(nextMethod);
+  };
+
+  const handleCancel = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    cancelMfa();
+    router.replace('/login');
+  };
+
+  const description =
+    method === 'totp'
+      ? 'Enter the 6-digit code from your authenticator app.'
+      : method === 'sms'
+        ? `We'll text a 6-digit code to ${mfaChallenge.phoneHint ?? 'your phone'}.`
+        : 'Enter one of the backup codes you saved when you turned on two-factor authentication.';
+
+  const otherMethods = ([...mfaChallenge.methods, 'backup_code'] as VerificationMethod[]).filter(
+    (option) => option !== method
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <ThemedText style={styles.title} type="title">
+          Two-Factor Authentication
+        </ThemedText>
+
+        <ThemedText style={styles.subtitle}>{description}</ThemedText>
+
+        <AuthErrorBanner
+          error={error}
+          cooldown={retryCooldown.remaining}
+          onRetry={handleSubmit(handleVerify)}
+        />
+
+        {method === 'sms' && (
+          <ThemedButton
+            title={
+              resendCooldown.isActive
+                ? `Resend Code (${resendCooldown.remaining}s)`
+                : isSending
+                  ? 'Sending...'
+                  : codeSent
+                    ? 'Resend Code'
+                    : 'Send Code'
+            }
+            onPress={handleSendCode}
+            variant="secondary"
+            loading={isSending}
+            disabled={isSending || resendCooldown.isActive}
+            style={styles.sendButton}
+          />
+        )}
+
+        <Controller
+          control={control}
+          name="code"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <ThemedTextInput
+              placeholder={method === 'backup_code' ? 'Backup code' : '6-digit code'}
+              keyboardType={method === 'backup_code' ? 'default' : 'number-pad'}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+              onBlur={onBlur}
+              onChangeText={onChange}
+              value={value}
+              error={!!errors.code}
+              editable={!isSubmitting}
+            />
+          )}
+        />
+
+        {errors.code && (
+          <ThemedText style={styles.errorText}>{errors.code.message}</ThemedText>
+        )}
+
+        <ThemedButton
+          title={isSubmitting ? 'Verifying...' : 'Verify'}
+          onPress={handleSubmit(handleVerify)}
+          loading={isSubmitting}
+          disabled={!isValid || isSubmitting || retryCooldown.isActive}
+          style={styles.verifyButton}
+        />
+
+        {otherMethods.map((option) => (
+          <ThemedText
+            key={option}
+            style={styles.methodLink}
+            type="link"
+            onPress={() => switchMethod(option)}
+          >
+            {METHOD_LABELS[option]}
+          </ThemedText>
+        ))}
+
+        <ThemedButton
+          title="Cancel"
+          onPress={handleCancel}
+          variant="secondary"
+          disabled={isSubmitting}
+          style={styles.cancelButton}
+        />
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  sendButton: {
+    marginBottom: 16,
+  },
+  verifyButton: {
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  methodLink: {
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  cancelButton: {
+    marginTop: 8,
+  },
+});
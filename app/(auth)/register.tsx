@@ -1,26 +1,29 @@
 import { useState } from 'react';
-import { StyleSheet, Alert } from 'react-native';
+import { StyleSheet } from 'react-native';
 import { useRouter } from 'expo-router';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm, Controller } from 'react-hook-form';
 import * as z from 'zod';
 import * as Haptics from 'expo-haptics';
 
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedTextInput } from '@/components/ThemedTextInput';
 import { ThemedButton } from '@/components/ThemedButton';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAuthFunnel } from '@/hooks/useAuthFunnel';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { applyFieldErrors } from '@/utils/forms';
+import { passwordSchema } from '@/utils/password';
 
 // Form validation schema
 const registerSchema = z.object({
   displayName: z.string().min(2, 'Name must be at least 2 characters').optional(),
   email: z.string().email('Please enter a valid email address'),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/\d/, 'Password must contain at least one number'),
+  password: passwordSchema,
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -33,16 +36,19 @@ export default function RegisterScreen() {
   const router = useRouter();
   const { register, isLoading, error, clearError } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const retryCooldown = useCooldown();
 
   const {
     control,
     handleSubmit,
-    formState: { errors, isValid },
+    setError: setFieldError,
+    formState: { errors, isValid, isDirty, touchedFields },
     watch,
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
     mode: 'onChange',
   });
+  const funnel = useAuthFunnel('register', { errors, isDirty, touchedFields });
 
   const password = watch('password');
 
@@ -55,18 +61,25 @@ export default function RegisterScreen() {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
       const { confirmPassword, ...registerData } = data;
+      funnel.submitted();
       await register(registerData);
+      funnel.succeeded();
 
       // Success haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
       // Navigation to main app will be handled by the root layout
     } catch (registerError) {
+      funnel.failed(registerError);
+
       // Error haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
 
-      const errorMessage = registerError instanceof Error ? registerError.message : 'Registration failed';
-      Alert.alert('Registration Error', errorMessage);
+      // The error itself is shown from the auth context; route field errors to their inputs
+      applyFieldErrors(registerError, setFieldError, ['displayName', 'email', 'password']);
+      if (isAuthError(registerError) && registerError.code === 'RATE_LIMITED') {
+        retryCooldown.start(registerError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -77,24 +90,6 @@ export default function RegisterScreen() {
     router.replace('/login');
   };
 
-  const getPasswordStrength = (password: string): { strength: number; text: string; color: string } => {
-    if (!password) return { strength: 0, text: '', color: 'transparent' };
-
-    let strength = 0;
-    if (password.length >= 8) strength++;
-    if (/[A-Z]/.test(password)) strength++;
-    if (/[a-z]/.test(password)) strength++;
-    if (/\d/.test(password)) strength++;
-    if (/[^A-Za-z0-9]/.test(password)) strength++;
-
-    if (strength <= 2) return { strength, text: 'Weak', color: '#ff4444' };
-    if (strength <= 3) return { strength, text: 'Fair', color: '#ffaa00' };
-    if (strength <= 4) return { strength, text: 'Good', color: '#00aaff' };
-    return { strength, text: 'Strong', color: '#00ff00' };
-  };
-
-  const passwordStrength = getPasswordStrength(password);
-
   return (
     <ThemedView style={styles.container}>
       <ThemedView style={styles.content}>
@@ -106,11 +101,11 @@ export default function RegisterScreen() {
           Sign up to get started
         </ThemedText>
 
-        {error && (
-          <ThemedView style={styles.errorContainer}>
-            <ThemedText style={styles.errorText}>{error}</ThemedText>
-          </ThemedView>
-        )}
+        <AuthErrorBanner
+          error={error}
+          cooldown={retryCooldown.remaining}
+          onRetry={handleSubmit(handleRegister)}
+        />
 
         <Controller
           control={control}
@@ -170,24 +165,7 @@ export default function RegisterScreen() {
           )}
         />
 
-        {password && (
-          <ThemedView style={styles.passwordStrengthContainer}>
-            <ThemedView style={styles.passwordStrengthBar}>
-              <ThemedView
-                style={[
-                  styles.passwordStrengthFill,
-                  {
-                    width: `${(passwordStrength.strength / 5) * 100}%`,
-                    backgroundColor: passwordStrength.color,
-                  },
-                ]}
-              />
-            </ThemedView>
-            <ThemedText style={[styles.passwordStrengthText, { color: passwordStrength.color }]}>
-              Password strength: {passwordStrength.text}
-            </ThemedText>
-          </ThemedView>
-        )}
+        <PasswordStrengthMeter password={password} />
 
         {errors.password && (
           <ThemedText style={styles.errorText}>{errors.password.message}</ThemedText>
@@ -217,7 +195,7 @@ export default function RegisterScreen() {
           title={isSubmitting ? 'Creating Account...' : 'Create Account'}
           onPress={handleSubmit(handleRegister)}
           loading={isSubmitting}
-          disabled={!isValid || isLoading || isSubmitting}
+          disabled={!isValid || isLoading || isSubmitting || retryCooldown.isActive}
           style={styles.registerButton}
         />
 
@@ -258,36 +236,11 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     opacity: 0.7,
   },
-  errorContainer: {
-    backgroundColor: '#ff444420',
-    borderColor: '#ff4444',
-    borderWidth: 1,
-    borderRadius: 8,
-    padding: 12,
-    marginBottom: 16,
-  },
   errorText: {
     color: '#ff4444',
     fontSize: 14,
     marginBottom: 8,
   },
-  passwordStrengthContainer: {
-    marginVertical: 4,
-  },
-  passwordStrengthBar: {
-    height: 4,
-    backgroundColor: '#e0e0e0',
-    borderRadius: 2,
-    overflow: 'hidden',
-  },
-  passwordStrengthFill: {
-    height: '100%',
-    borderRadius: 2,
-  },
-  passwordStrengthText: {
-    fontSize: 12,
-    marginTop: 4,
-  },
   registerButton: {
     marginTop: 16,
   },
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, Controller } from 'react-hook-form';
+import * as z from 'zod';
+import * as Haptics from 'expo-haptics';
+
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedButton } from '@/components/ThemedButton';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { applyFieldErrors } from '@/utils/forms';
+import { passwordSchema } from '@/utils/password';
+
+// Form validation schema
+const resetPasswordSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  // `token` comes from myapp://reset-password?token=..., `oobCode` from Firebase action links
+  const params = useLocalSearchParams<{ token?: string; oobCode?: string }>();
+  const token = params.token ?? params.oobCode;
+  const { confirmPasswordReset, error, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [passwordUpdated, setPasswordUpdated] = useState(false);
+  const retryCooldown = useCooldown();
+
+  const {
+    control,
+    handleSubmit,
+    setError: setFieldError,
+    formState: { errors, isValid },
+    watch,
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    mode: 'onChange',
+  });
+
+  const password = watch('password');
+  const linkInvalid = !token || error?.code === 'INVALID_TOKEN' || error?.code === 'EXPIRED_TOKEN';
+
+  const handleResetPassword = async (data: ResetPasswordFormData) => {
+    if (!token) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      clearError();
+
+      // Haptic feedback for button press
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await confirmPasswordReset(token, data.password);
+
+      // Success haptic feedback
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      setPasswordUpdated(true);
+    } catch (resetError) {
+      // Error haptic feedback
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      // The error itself is shown from the auth context; route field errors to their inputs
+      applyFieldErrors(resetError, setFieldError, ['password']);
+      if (isAuthError(resetError) && resetError.code === 'RATE_LIMITED') {
+        retryCooldown.start(resetError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const navigateToLogin = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    router.replace('/login');
+  };
+
+  const navigateToForgotPassword = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    router.replace('/forgot-password');
+  };
+
+  if (passwordUpdated) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.title} type="title">
+            Password Updated
+          </ThemedText>
+
+          <ThemedText style={styles.subtitle}>
+            Your password has been changed. Sign in with your new password to continue.
+          </ThemedText>
+
+          <ThemedButton
+            title="Back to Login"
+            onPress={navigateToLogin}
+            style={styles.backButton}
+          />
+        </ThemedView>
+      </ThemedView>
+    );
+  }
+
+  if (linkInvalid) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.title} type="title">
+            {error?.code === 'EXPIRED_TOKEN' ? 'Link Expired' : 'Invalid Link'}
+          </ThemedText>
+
+          <ThemedText style={styles.subtitle}>
+            {error?.message ?? 'This password reset link is invalid.'} Request a new link to reset your password.
+          </ThemedText>
+
+          <ThemedButton
+            title="Request New Link"
+            onPress={navigateToForgotPassword}
+            style={styles.backButton}
+          />
+
+          <ThemedButton
+            title="Back to Login"
+            onPress={navigateToLogin}
+            variant="secondary"
+          />
+        </ThemedView>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <ThemedText style={styles.title} type="title">
+          Choose New Password
+        </ThemedText>
+
+        <ThemedText style={styles.subtitle} type="subtitle">
+          Enter a new password for your account.
+        </ThemedText>
+
+        <AuthErrorBanner
+          error={error}
+          cooldown={retryCooldown.remaining}
+          onRetry={handleSubmit(handleResetPassword)}
+        />
+
+        <Controller
+          control={control}
+          name="password"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <ThemedTextInput
+              placeholder="New Password"
+              secureTextEntry
+              onBlur={onBlur}
+              onChangeText={onChange}
+              value={value}
+              error={!!errors.password}
+              editable={!isSubmitting}
+            />
+          )}
+        />
+
+        <PasswordStrengthMeter password={password} />
+
+        {errors.password && (
+          <ThemedText style={styles.errorText}>{errors.password.message}</ThemedText>
+        )}
+
+        <Controller
+          control={control}
+          name="confirmPassword"
+          render={({ field: { onChange, onBlur, value } }) => (
+            <ThemedTextInput
+              placeholder="Confirm New Password"
+              secureTextEntry
+              onBlur={onBlur}
+              onChangeText={onChange}
+              value={value}
+              error={!!errors.confirmPassword}
+              editable={!isSubmitting}
+            />
+          )}
+        />
+
+        {errors.confirmPassword && (
+          <ThemedText style={styles.errorText}>{errors.confirmPassword.message}</ThemedText>
+        )}
+
+        <ThemedButton
+          title={isSubmitting ? 'Updating...' : 'Update Password'}
+          onPress={handleSubmit(handleResetPassword)}
+          loading={isSubmitting}
+          disabled={!isValid || isSubmitting || retryCooldown.isActive}
+          style={styles.resetButton}
+        />
+
+        <ThemedButton
+          title="Cancel"
+          onPress={navigateToLogin}
+          variant="secondary"
+          disabled={isSubmitting}
+        />
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  resetButton: {
+    marginTop: 16,
+  },
+  backButton: {
+    marginTop: 32,
+  },
+});
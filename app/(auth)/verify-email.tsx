@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedButton } from '@/components/ThemedButton';
+import { VERIFICATION_POLL_INTERVAL_MS, VERIFICATION_RESEND_COOLDOWN_SECONDS } from '@/constants/Auth';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCooldown } from '@/hooks/useCooldown';
+import { useLatestCallback } from '@/hooks/useLatestCallback';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { takeIntendedRoute } from '@/utils/authRedirect';
+
+type LinkStatus = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailScreen() {
+  const router = useRouter();
+  // `token` comes from myapp://verify-email?token=..., `oobCode` from Firebase action links
+  const params = useLocalSearchParams<{ token?: string; oobCode?: string; email?: string }>();
+  const token = params.token ?? params.oobCode;
+  const { user, isAuthenticated, error, verifyEmail, resendVerificationEmail, refreshUser, logout, clearError } = useAuth();
+  const resendCooldown = useCooldown();
+  const startResendCooldown = resendCooldown.start;
+  const [linkStatus, setLinkStatus] = useState<LinkStatus | null>(token ? 'verifying' : null);
+  const [isResending, setIsResending] = useState(false);
+
+  const email = user?.email ?? params.email;
+  const isVerified = linkStatus === 'verified' || !!user?.emailVerified;
+
+  // Verify the token from the deep link
+  const verifyLinkToken = useLatestCallback(verifyEmail);
+
+  useEffect(() => {
+    if (!token) {
+      // A verification email was just sent, so hold off resending
+      startResendCooldown(VERIFICATION_RESEND_COOLDOWN_SECONDS);
+      return;
+    }
+
+    let cancelled = false;
+    setLinkStatus('verifying');
+    verifyLinkToken(token)
+      .then(() => !cancelled && setLinkStatus('verified'))
+      .catch(() => !cancelled && setLinkStatus('failed'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, startResendCooldown, verifyLinkToken]);
+
+  // Poll the profile until the address is verified, e.g. from a link opened on another device
+  const pollUser = useLatestCallback(refreshUser);
+
+  useEffect(() => {
+    if (!isAuthenticated || isVerified) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      pollUser().catch((pollError) => console.warn('Failed to refresh user:', pollError));
+    }, VERIFICATION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated, isVerified, pollUser]);
+
+  const handleResend = async () => {
+    try {
+      setIsResending(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await resendVerificationEmail(isAuthenticated ? undefined : email);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setLinkStatus(null);
+      resendCooldown.start(VERIFICATION_RESEND_COOLDOWN_SECONDS);
+    } catch (resendError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+      if (isAuthError(resendError) && resendError.code === 'RATE_LIMITED') {
+        resendCooldown.start(resendError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleContinue = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.replace(isAuthenticated ? (takeIntendedRoute() ?? '/(tabs)') : '/login');
+  };
+
+  const handleSignOut = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await logout();
+    router.replace('/login');
+  };
+
+  if (linkStatus === 'verifying') {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedView style={styles.content}>
+          <ActivityIndicator size="large" />
+          <ThemedText style={styles.subtitle}>Verifying your email address...</ThemedText>
+        </ThemedView>
+      </ThemedView>
+    );
+  }
+
+  if (isVerified) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.title} type="title">
+            Email Verified
+          </ThemedText>
+
+          <ThemedText style={styles.subtitle}>
+            {isAuthenticated
+              ? 'Thanks for confirming your email address.'
+              : 'Thanks for confirming your email address. You can now sign in.'}
+          </ThemedText>
+
+          <ThemedButton
+            title={isAuthenticated ? 'Continue' : 'Go to Login'}
+            onPress={handleContinue}
+            style={styles.primaryButton}
+          />
+        </ThemedView>
+      </ThemedView>
+    );
+  }
+
+  const canResend = isAuthenticated || !!email;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <ThemedText style={styles.title} type="title">
+          {linkStatus === 'failed' ? 'Link Expired' : 'Verify Your Email'}
+        </ThemedText>
+
+        <ThemedText style={styles.subtitle}>
+          {linkStatus === 'failed'
+            ? 'This verification link is invalid or has already been used.'
+            : `We've sent a verification link to ${email ?? 'your email address'}.`}
+        </ThemedText>
+
+        <AuthErrorBanner error={error} cooldown={resendCooldown.remaining} />
+
+        <ThemedText style={styles.description}>
+          {canResend
+            ? 'Open the link in the email to verify your account. It can take a few minutes to arrive, so check your spam folder too.'
+            : 'Sign in to request a new verification link.'}
+        </ThemedText>
+
+        {canResend && (
+          <ThemedButton
+            title={
+              resendCooldown.isActive
+                ? `Resend Email (${resendCooldown.remaining}s)`
+                : isResending
+                  ? 'Sending...'
+                  : 'Resend Email'
+            }
+            onPress={handleResend}
+            loading={isResending}
+            disabled={isResending || resendCooldown.isActive}
+            style={styles.primaryButton}
+          />
+        )}
+
+        {isAuthenticated ? (
+          <ThemedButton title="Sign Out" onPress={handleSignOut} variant="secondary" />
+        ) : (
+          <ThemedButton title="Back to Login" onPress={handleContinue} variant="secondary" />
+        )}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 32,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+  description: {
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 32,
+    opacity: 0.8,
+  },
+  primaryButton: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,678 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Alert, Switch } from 'react-native';
+import { useRouter } from 'expo-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, Controller } from 'react-hook-form';
+import * as z from 'zod';
+import * as Haptics from 'expo-haptics';
+
+import { AccountSwitcher } from '@/components/AccountSwitcher';
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { Collapsible } from '@/components/Collapsible';
+import ParallaxScrollView from '@/components/ParallaxScrollView';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
+import { RequirePermission } from '@/components/RequirePermission';
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { PERMISSIONS } from '@/constants/Permissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { isAppLockAvailable } from '@/services/appLock';
+import { applyFieldErrors } from '@/utils/forms';
+import { passwordSchema } from '@/utils/password';
+
+// Form validation schemas
+const profileSchema = z.object({
+  displayName: z.string().min(2, 'Name must be at least 2 characters'),
+});
+
+const emailSchema = z.object({
+  newEmail: z.string().email('Please enter a valid email address'),
+  password: z.string().min(1, 'Please enter your password'),
+});
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, 'Please enter your current password'),
+  newPassword: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+const disableMfaSchema = z.object({
+  password: z.string().min(1, 'Please enter your password'),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Please enter your password'),
+});
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+type EmailFormData = z.infer<typeof emailSchema>;
+type PasswordChangeFormData = z.infer<typeof passwordChangeSchema>;
+type DisableMfaFormData = z.infer<typeof disableMfaSchema>;
+type DeleteAccountFormData = z.infer<typeof deleteAccountSchema>;
+
+function ProfileSection() {
+  const { user, updateProfile, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    setError: setFieldError,
+    formState: { errors, isValid },
+  } = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    mode: 'onChange',
+    defaultValues: { displayName: user?.displayName ?? '' },
+  });
+
+  const handleSave = async (data: ProfileFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSaved(false);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await updateProfile({ displayName: data.displayName });
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setSaved(true);
+    } catch (updateError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      applyFieldErrors(updateError, setFieldError, ['displayName']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Collapsible title="Display Name">
+      <Controller
+        control={control}
+        name="displayName"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="Full Name"
+            autoCapitalize="words"
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.displayName}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      {errors.displayName && (
+        <ThemedText style={styles.errorText}>{errors.displayName.message}</ThemedText>
+      )}
+
+      {saved && <ThemedText style={styles.successText}>Your name has been updated.</ThemedText>}
+
+      <ThemedButton
+        title={isSubmitting ? 'Saving...' : 'Save Name'}
+        onPress={handleSubmit(handleSave)}
+        loading={isSubmitting}
+        disabled={!isValid || isSubmitting}
+      />
+    </Collapsible>
+  );
+}
+
+function EmailSection() {
+  const { user, changeEmail, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError: setFieldError,
+    formState: { errors, isValid },
+  } = useForm<EmailFormData>({
+    resolver: zodResolver(emailSchema),
+    mode: 'onChange',
+  });
+
+  const handleChangeEmail = async (data: EmailFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      // The root layout sends the user to verify the new address if verification is required
+      await changeEmail(data.newEmail, data.password);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      reset();
+    } catch (changeError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      applyFieldErrors(changeError, setFieldError, ['newEmail', 'password']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Collapsible title="Email Address">
+      <ThemedText style={styles.description}>
+        Currently {user?.email}. You'll need to verify the new address.
+      </ThemedText>
+
+      <Controller
+        control={control}
+        name="newEmail"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="New email address"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.newEmail}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      {errors.newEmail && (
+        <ThemedText style={styles.errorText}>{errors.newEmail.message}</ThemedText>
+      )}
+
+      <Controller
+        control={control}
+        name="password"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="Current password"
+            secureTextEntry
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.password}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      {errors.password && (
+        <ThemedText style={styles.errorText}>{errors.password.message}</ThemedText>
+      )}
+
+      <ThemedButton
+        title={isSubmitting ? 'Updating...' : 'Change Email'}
+        onPress={handleSubmit(handleChangeEmail)}
+        loading={isSubmitting}
+        disabled={!isValid || isSubmitting}
+      />
+    </Collapsible>
+  );
+}
+
+function PasswordSection() {
+  const { changePassword, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError: setFieldError,
+    formState: { errors, isValid },
+    watch,
+  } = useForm<PasswordChangeFormData>({
+    resolver: zodResolver(passwordChangeSchema),
+    mode: 'onChange',
+  });
+
+  const newPassword = watch('newPassword');
+
+  const handleChangePassword = async (data: PasswordChangeFormData) => {
+    try {
+      setIsSubmitting(true);
+      setSaved(false);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await changePassword(data.currentPassword, data.newPassword);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      reset();
+      setSaved(true);
+    } catch (changeError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      applyFieldErrors(changeError, setFieldError, ['currentPassword', 'newPassword']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Collapsible title="Password">
+      <Controller
+        control={control}
+        name="currentPassword"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="Current password"
+            secureTextEntry
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.currentPassword}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      {errors.currentPassword && (
+        <ThemedText style={styles.errorText}>{errors.currentPassword.message}</ThemedText>
+      )}
+
+      <Controller
+        control={control}
+        name="newPassword"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="New password"
+            secureTextEntry
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.newPassword}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      <PasswordStrengthMeter password={newPassword} />
+
+      {errors.newPassword && (
+        <ThemedText style={styles.errorText}>{errors.newPassword.message}</ThemedText>
+      )}
+
+      <Controller
+        control={control}
+        name="confirmPassword"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="Confirm new password"
+            secureTextEntry
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.confirmPassword}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      {errors.confirmPassword && (
+        <ThemedText style={styles.errorText}>{errors.confirmPassword.message}</ThemedText>
+      )}
+
+      {saved && <ThemedText style={styles.successText}>Your password has been changed.</ThemedText>}
+
+      <ThemedButton
+        title={isSubmitting ? 'Updating...' : 'Change Password'}
+        onPress={handleSubmit(handleChangePassword)}
+        loading={isSubmitting}
+        disabled={!isValid || isSubmitting}
+      />
+    </Collapsible>
+  );
+}
+
+function TwoFactorSection() {
+  const router = useRouter();
+  const { user, disableMfa, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError: setFieldError,
+    formState: { errors, isValid },
+  } = useForm<DisableMfaFormData>({
+    resolver: zodResolver(disableMfaSchema),
+    mode: 'onChange',
+  });
+
+  const enrolledMethods = user?.mfaMethods ?? [];
+  const methodNames = enrolledMethods.map((method) =>
+    method === 'totp' ? 'an authenticator app' : 'text messages'
+  );
+
+  const handleSetUp = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    router.push('/mfa-setup');
+  };
+
+  const handleDisable = async (data: DisableMfaFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await disableMfa(data.password);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      reset();
+    } catch (disableError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      applyFieldErrors(disableError, setFieldError, ['password']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Collapsible title="Two-Factor Authentication">
+      <ThemedText style={styles.description}>
+        {enrolledMethods.length
+          ? `On. You confirm sign-ins with ${methodNames.join(' or ')}.`
+          : 'Off. Add a code from an authenticator app or a text message to each sign-in.'}
+      </ThemedText>
+
+      {enrolledMethods.length < 2 && (
+        <ThemedButton
+          title={enrolledMethods.length ? 'Add Another Method' : 'Turn On'}
+          onPress={handleSetUp}
+          variant={enrolledMethods.length ? 'secondary' : 'primary'}
+          style={styles.sectionButton}
+        />
+      )}
+
+      {enrolledMethods.length > 0 && (
+        <>
+          <Controller
+            control={control}
+            name="password"
+            render={({ field: { onChange, onBlur, value } }) => (
+              <ThemedTextInput
+                placeholder="Password"
+                secureTextEntry
+                onBlur={onBlur}
+                onChangeText={onChange}
+                value={value}
+                error={!!errors.password}
+                editable={!isSubmitting}
+              />
+            )}
+          />
+
+          {errors.password && (
+            <ThemedText style={styles.errorText}>{errors.password.message}</ThemedText>
+          )}
+
+          <ThemedButton
+            title={isSubmitting ? 'Turning Off...' : 'Turn Off'}
+            onPress={handleSubmit(handleDisable)}
+            loading={isSubmitting}
+            disabled={!isValid || isSubmitting}
+          />
+        </>
+      )}
+    </Collapsible>
+  );
+}
+
+function DevicesSection() {
+  const router = useRouter();
+  const { clearError } = useAuth();
+
+  const handleManageDevices = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    router.push('/sessions');
+  };
+
+  return (
+    <Collapsible title="Signed-in Devices">
+      <ThemedText style={styles.description}>
+        See where your account is signed in and sign out devices you no longer use.
+      </ThemedText>
+
+      <ThemedButton title="Manage Devices" onPress={handleManageDevices} variant="secondary" />
+    </Collapsible>
+  );
+}
+
+function AdminSection() {
+  const router = useRouter();
+
+  const handleOpenAdmin = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/admin');
+  };
+
+  return (
+    <Collapsible title="Administration">
+      <ThemedText style={styles.description}>Manage the app with the tools available to admins.</ThemedText>
+
+      <ThemedButton title="Open Admin Tools" onPress={handleOpenAdmin} variant="secondary" />
+    </Collapsible>
+  );
+}
+
+function AppLockSection() {
+  const { isAppLockEnabled, setAppLockEnabled, clearError } = useAuth();
+  const [isAvailable, setIsAvailable] = useState<boolean | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    isAppLockAvailable().then(setIsAvailable);
+  }, []);
+
+  const handleToggle = async (enabled: boolean) => {
+    try {
+      setIsUpdating(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      await setAppLockEnabled(enabled);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      // The error is shown from the auth context
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Collapsible title="App Lock">
+      <ThemedView style={styles.switchRow}>
+        <ThemedText style={styles.switchLabel}>Require Face ID, Touch ID or fingerprint</ThemedText>
+        <Switch
+          value={isAppLockEnabled}
+          onValueChange={handleToggle}
+          disabled={isUpdating || (!isAvailable && !isAppLockEnabled)}
+        />
+      </ThemedView>
+
+      <ThemedText style={styles.description}>
+        {isAvailable === false
+          ? 'Set up Face ID, Touch ID or a fingerprint on this device to use app lock.'
+          : 'Ask for biometrics, or your device passcode, when the app opens or has been in the background for a few minutes.'}
+      </ThemedText>
+    </Collapsible>
+  );
+}
+
+function DeleteAccountSection() {
+  const { deleteAccount, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    setError: setFieldError,
+    formState: { errors, isValid },
+  } = useForm<DeleteAccountFormData>({
+    resolver: zodResolver(deleteAccountSchema),
+    mode: 'onChange',
+  });
+
+  const handleDeleteAccount = async (data: DeleteAccountFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+
+      // Navigation back to login will be handled by the root layout
+      await deleteAccount(data.password);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (deleteError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      applyFieldErrors(deleteError, setFieldError, ['password']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmDeleteAccount = (data: DeleteAccountFormData) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your account and all of its data. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => handleDeleteAccount(data) },
+      ]
+    );
+  };
+
+  return (
+    <Collapsible title="Delete Account">
+      <ThemedText style={styles.description}>
+        Enter your password to permanently delete your account.
+      </ThemedText>
+
+      <Controller
+        control={control}
+        name="password"
+        render={({ field: { onChange, onBlur, value } }) => (
+          <ThemedTextInput
+            placeholder="Password"
+            secureTextEntry
+            onBlur={onBlur}
+            onChangeText={onChange}
+            value={value}
+            error={!!errors.password}
+            editable={!isSubmitting}
+          />
+        )}
+      />
+
+      {errors.password && (
+        <ThemedText style={styles.errorText}>{errors.password.message}</ThemedText>
+      )}
+
+      <ThemedButton
+        title={isSubmitting ? 'Deleting...' : 'Delete Account'}
+        onPress={handleSubmit(confirmDeleteAccount)}
+        loading={isSubmitting}
+        disabled={!isValid || isSubmitting}
+        lightColor="#ff4444"
+        darkColor="#ff4444"
+      />
+    </Collapsible>
+  );
+}
+
+export default function SettingsScreen() {
+  const { user, error, logout } = useAuth();
+
+  const handleSignOut = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Only the active account is signed out; the root layout moves on to another account or to login
+    await logout();
+  };
+
+  return (
+    <ParallaxScrollView
+      headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}
+      headerImage={
+        <IconSymbol size={310} color="#808080" name="gearshape.fill" style={styles.headerImage} />
+      }>
+      <ThemedView style={styles.titleContainer}>
+        <ThemedText type="title">Settings</ThemedText>
+      </ThemedView>
+
+      <ThemedText>Signed in as {user?.displayName ?? user?.email}</ThemedText>
+
+      <AuthErrorBanner error={error} />
+
+      <AccountSwitcher />
+
+      <ProfileSection />
+      <EmailSection />
+      <PasswordSection />
+      <TwoFactorSection />
+      <DevicesSection />
+      <RequirePermission permission={PERMISSIONS.VIEW_ADMIN}>
+        <AdminSection />
+      </RequirePermission>
+      <AppLockSection />
+      <DeleteAccountSection />
+
+      <ThemedButton title="Sign Out" onPress={handleSignOut} variant="secondary" style={styles.signOutButton} />
+    </ParallaxScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerImage: {
+    color: '#808080',
+    bottom: -90,
+    left: -35,
+    position: 'absolute',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  description: {
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 8,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  successText: {
+    color: '#00aa44',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  sectionButton: {
+    marginBottom: 12,
+  },
+  signOutButton: {
+    marginTop: 16,
+  },
+});
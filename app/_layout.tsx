@@ -1,35 +1,61 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack, useRouter } from 'expo-router';
+import { Stack, useGlobalSearchParams, usePathname, useRouter, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import 'react-native-reanimated';
 import { ActivityIndicator } from 'react-native';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useScreenTracking } from '@/hooks/useScreenTracking';
 import { AuthProvider, useAuthStatus } from '@/contexts/AuthContext';
+import { ConnectivityProvider } from '@/contexts/ConnectivityContext';
 import { ThemedView } from '@/components/ThemedView';
+import { AppLockScreen } from '@/components/AppLockScreen';
+import { OfflineBanner } from '@/components/OfflineBanner';
+import { REQUIRE_VERIFIED_EMAIL } from '@/constants/Auth';
+import { getAuthRedirect, rememberIntendedRoute, takeIntendedRoute, toRouteUrl } from '@/utils/authRedirect';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
 // Component to handle authentication logic and routing
-function AuthGuard({ children }: { children: React.ReactNode }) {
+function AuthGuard() {
   const router = useRouter();
-  const { isLoading, isAuthenticated } = useAuthStatus();
+  const segments = useSegments() as string[];
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
+  const { isLoading, isAuthenticated, user, mfaChallenge, isAddingAccount } = useAuthStatus();
+  // A challenge only exists mid sign-in, which may be for an account added on top of the active one
+  const needsMfa = !!mfaChallenge;
+  const needsVerification = REQUIRE_VERIFIED_EMAIL && isAuthenticated && !user?.emailVerified;
+  // Set once the user has been let into the app, so signing out doesn't count as opening a link
+  const hasEnteredApp = useRef(false);
 
   useEffect(() => {
-    if (!isLoading) {
-      if (isAuthenticated) {
-        // If authenticated, navigate to main tabs
-        router.replace('/(tabs)');
-      } else {
-        // If not authenticated, navigate to login
-        router.replace('/(auth)/login');
-      }
+    if (isLoading) {
+      return;
     }
-  }, [isLoading, isAuthenticated, router]);
+
+    const destination = getAuthRedirect(segments, { isAuthenticated, needsMfa, needsVerification, isAddingAccount });
+    const isLinkedRoute = segments.length > 0 && segments[0] !== '(auth)';
+    if (destination && destination !== 'app' && isLinkedRoute && !hasEnteredApp.current) {
+      // A link was opened before signing in; come back to it once signed in
+      rememberIntendedRoute(toRouteUrl(pathname, params, segments));
+    }
+    hasEnteredApp.current = isAuthenticated && !needsVerification;
+
+    if (destination === 'mfa') {
+      router.replace('/(auth)/mfa');
+    } else if (destination === 'login') {
+      router.replace('/(auth)/login');
+    } else if (destination === 'verify-email') {
+      router.replace('/(auth)/verify-email');
+    } else if (destination === 'app') {
+      router.replace(takeIntendedRoute() ?? '/(tabs)');
+    }
+  }, [isLoading, isAuthenticated, needsVerification, needsMfa, isAddingAccount, segments, pathname, params, router]);
 
   // Show loading screen while checking authentication status
   if (isLoading) {
@@ -49,6 +75,7 @@ function RootLayoutContent() {
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
+  useScreenTracking();
 
   useEffect(() => {
     if (loaded) {
@@ -62,15 +89,22 @@ function RootLayoutContent() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <AuthProvider>
-        <AuthGuard />
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(auth)" />
-          <Stack.Screen name="(tabs)" />
-          <Stack.Screen name="+not-found" />
-        </Stack>
-        <StatusBar style="auto" />
-      </AuthProvider>
+      <ConnectivityProvider>
+        <AuthProvider>
+          <AuthGuard />
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(auth)" />
+            <Stack.Screen name="(tabs)" />
+            <Stack.Screen name="mfa-setup" options={{ presentation: 'modal' }} />
+            <Stack.Screen name="sessions" options={{ headerShown: true, title: 'Signed-in Devices' }} />
+            <Stack.Screen name="admin" />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+          <OfflineBanner />
+          <AppLockScreen />
+          <StatusBar style="auto" />
+        </AuthProvider>
+      </ConnectivityProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,15 @@
+import { Stack } from 'expo-router';
+
+import { RequireAccess } from '@/components/RequireAccess';
+import { ROLES } from '@/constants/Permissions';
+
+// Admin tools; every screen in this folder needs the admin role
+export default function AdminLayout() {
+  return (
+    <RequireAccess roles={[ROLES.ADMIN]}>
+      <Stack>
+        <Stack.Screen name="index" options={{ title: 'Admin' }} />
+      </Stack>
+    </RequireAccess>
+  );
+}
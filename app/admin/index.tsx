@@ -0,0 +1,46 @@
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useAuthStatus } from '@/contexts/AuthContext';
+
+export default function AdminScreen() {
+  const { user } = useAuthStatus();
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={styles.description}>
+          Only accounts with the admin role can open this area. Add admin tools as screens in app/admin.
+        </ThemedText>
+
+        <ThemedText type="subtitle">Your Roles</ThemedText>
+        <ThemedText style={styles.claims}>{user?.roles?.join(', ') || 'None'}</ThemedText>
+
+        <ThemedText type="subtitle">Your Permissions</ThemedText>
+        <ThemedText style={styles.claims}>{user?.permissions?.join(', ') || 'None'}</ThemedText>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    gap: 12,
+    maxWidth: 600,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  description: {
+    opacity: 0.8,
+    marginBottom: 8,
+  },
+  claims: {
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,379 @@
+import { useState } from 'react';
+import { ScrollView, Share, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, Controller } from 'react-hook-form';
+import QRCode from 'react-native-qrcode-svg';
+import * as z from 'zod';
+import * as Haptics from 'expo-haptics';
+
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedButton } from '@/components/ThemedButton';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCooldown } from '@/hooks/useCooldown';
+import { DEFAULT_RETRY_AFTER_SECONDS, isAuthError } from '@/services/authErrors';
+import { MfaMethod, TotpEnrollmentResponse } from '@/services/authTypes';
+import { applyFieldErrors } from '@/utils/forms';
+
+type SetupStep = 'choose' | 'phone' | 'code' | 'backup-codes';
+
+// Form validation schemas
+const phoneSchema = z.object({
+  phoneNumber: z
+    .string()
+    .trim()
+    .regex(/^\+[1-9]\d{7,14}$/, 'Enter your number with country code, e.g. +15555550123'),
+});
+
+const codeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Please enter the 6-digit code'),
+});
+
+type PhoneFormData = z.infer<typeof phoneSchema>;
+type CodeFormData = z.infer<typeof codeSchema>;
+
+export default function MfaSetupScreen() {
+  const router = useRouter();
+  const { user, startTotpEnrollment, startSmsEnrollment, confirmMfaEnrollment, error, clearError } =
+    useAuth();
+  const [step, setStep] = useState<SetupStep>('choose');
+  const [method, setMethod] = useState<MfaMethod>('totp');
+  const [totpSetup, setTotpSetup] = useState<NonNullable<TotpEnrollmentResponse['data']> | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const retryCooldown = useCooldown();
+
+  const phoneForm = useForm<PhoneFormData>({
+    resolver: zodResolver(phoneSchema),
+    mode: 'onChange',
+  });
+
+  const codeForm = useForm<CodeFormData>({
+    resolver: zodResolver(codeSchema),
+    mode: 'onChange',
+  });
+
+  const enrolledMethods = user?.mfaMethods ?? [];
+
+  const handleFailure = (setupError: unknown) => {
+    // Error haptic feedback
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+
+    // The error itself is shown from the auth context
+    if (isAuthError(setupError) && setupError.code === 'RATE_LIMITED') {
+      retryCooldown.start(setupError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+    }
+  };
+
+  const handleChooseTotp = async () => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      setTotpSetup(await startTotpEnrollment());
+      setMethod('totp');
+      setStep('code');
+    } catch (setupError) {
+      handleFailure(setupError);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChooseSms = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    setMethod('sms');
+    setStep('phone');
+  };
+
+  const handleSendSmsCode = async (data: PhoneFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      await startSmsEnrollment(data.phoneNumber);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setStep('code');
+    } catch (setupError) {
+      handleFailure(setupError);
+      applyFieldErrors(setupError, phoneForm.setError, ['phoneNumber']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async (data: CodeFormData) => {
+    try {
+      setIsSubmitting(true);
+      clearError();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      setBackupCodes(await confirmMfaEnrollment(method, data.code));
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setStep('backup-codes');
+    } catch (confirmError) {
+      handleFailure(confirmError);
+      applyFieldErrors(confirmError, codeForm.setError, ['code']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleShareBackupCodes = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Share.share({ message: `Backup codes for ${user?.email}:\n\n${backupCodes.join('\n')}` });
+  };
+
+  const handleClose = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    clearError();
+    router.back();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <ThemedView style={styles.content}>
+          <ThemedText style={styles.title} type="title">
+            Two-Factor Authentication
+          </ThemedText>
+
+          <AuthErrorBanner error={error} cooldown={retryCooldown.remaining} />
+
+          {step === 'choose' && (
+            <>
+              <ThemedText style={styles.subtitle}>
+                Add a second step to signing in, so your password alone isn't enough to access
+                your account.
+              </ThemedText>
+
+              <ThemedButton
+                title={enrolledMethods.includes('totp') ? 'Authenticator App Added' : 'Use an Authenticator App'}
+                onPress={handleChooseTotp}
+                loading={isSubmitting}
+                disabled={isSubmitting || retryCooldown.isActive || enrolledMethods.includes('totp')}
+                style={styles.button}
+              />
+
+              <ThemedButton
+                title={enrolledMethods.includes('sms') ? 'Text Messages Added' : 'Use Text Messages'}
+                onPress={handleChooseSms}
+                variant="secondary"
+                disabled={isSubmitting || enrolledMethods.includes('sms')}
+                style={styles.button}
+              />
+            </>
+          )}
+
+          {step === 'phone' && (
+            <>
+              <ThemedText style={styles.subtitle}>
+                We'll text a code to this number each time you sign in.
+              </ThemedText>
+
+              <Controller
+                control={phoneForm.control}
+                name="phoneNumber"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <ThemedTextInput
+                    placeholder="+15555550123"
+                    keyboardType="phone-pad"
+                    autoComplete="tel"
+                    textContentType="telephoneNumber"
+                    onBlur={onBlur}
+                    onChangeText={onChange}
+                    value={value}
+                    error={!!phoneForm.formState.errors.phoneNumber}
+                    editable={!isSubmitting}
+                  />
+                )}
+              />
+
+              {phoneForm.formState.errors.phoneNumber && (
+                <ThemedText style={styles.errorText}>
+                  {phoneForm.formState.errors.phoneNumber.message}
+                </ThemedText>
+              )}
+
+              <ThemedButton
+                title={isSubmitting ? 'Sending...' : 'Send Code'}
+                onPress={phoneForm.handleSubmit(handleSendSmsCode)}
+                loading={isSubmitting}
+                disabled={!phoneForm.formState.isValid || isSubmitting || retryCooldown.isActive}
+                style={styles.button}
+              />
+            </>
+          )}
+
+          {step === 'code' && (
+            <>
+              {method === 'totp' && totpSetup ? (
+                <>
+                  <ThemedText style={styles.subtitle}>
+                    Scan this QR code with your authenticator app, then enter the 6-digit code it
+                    shows.
+                  </ThemedText>
+
+                  <ThemedView style={styles.qrCode}>
+                    <QRCode value={totpSetup.otpauthUrl} size={200} backgroundColor="#fff" />
+                  </ThemedView>
+
+                  <ThemedText style={styles.secretLabel}>Or enter this key manually:</ThemedText>
+                  <ThemedText style={styles.secret} selectable>
+                    {totpSetup.secret}
+                  </ThemedText>
+                </>
+              ) : (
+                <ThemedText style={styles.subtitle}>
+                  Enter the 6-digit code we texted to {phoneForm.getValues('phoneNumber')}.
+                </ThemedText>
+              )}
+
+              <Controller
+                control={codeForm.control}
+                name="code"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <ThemedTextInput
+                    placeholder="6-digit code"
+                    keyboardType="number-pad"
+                    autoComplete="one-time-code"
+                    textContentType="oneTimeCode"
+                    onBlur={onBlur}
+                    onChangeText={onChange}
+                    value={value}
+                    error={!!codeForm.formState.errors.code}
+                    editable={!isSubmitting}
+                  />
+                )}
+              />
+
+              {codeForm.formState.errors.code && (
+                <ThemedText style={styles.errorText}>
+                  {codeForm.formState.errors.code.message}
+                </ThemedText>
+              )}
+
+              <ThemedButton
+                title={isSubmitting ? 'Verifying...' : 'Turn On'}
+                onPress={codeForm.handleSubmit(handleConfirm)}
+                loading={isSubmitting}
+                disabled={!codeForm.formState.isValid || isSubmitting || retryCooldown.isActive}
+                style={styles.button}
+              />
+            </>
+          )}
+
+          {step === 'backup-codes' && (
+            <>
+              <ThemedText style={styles.subtitle}>
+                Two-factor authentication is on. Save these backup codes somewhere safe: each one
+                signs you in once if you lose access to your second factor. They won't be shown
+                again.
+              </ThemedText>
+
+              <ThemedView style={styles.backupCodes}>
+                {backupCodes.map((code) => (
+                  <ThemedText key={code} style={styles.backupCode} selectable>
+                    {code}
+                  </ThemedText>
+                ))}
+              </ThemedView>
+
+              {backupCodes.length > 0 && (
+                <ThemedButton
+                  title="Save Codes"
+                  onPress={handleShareBackupCodes}
+                  variant="secondary"
+                  style={styles.button}
+                />
+              )}
+
+              <ThemedButton title="Done" onPress={handleClose} style={styles.button} />
+            </>
+          )}
+
+          {step !== 'backup-codes' && (
+            <ThemedButton
+              title="Cancel"
+              onPress={handleClose}
+              variant="secondary"
+              disabled={isSubmitting}
+              style={styles.button}
+            />
+          )}
+        </ThemedView>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 48,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  button: {
+    marginTop: 12,
+  },
+  qrCode: {
+    alignSelf: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  secretLabel: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  secret: {
+    textAlign: 'center',
+    fontFamily: 'SpaceMono',
+    marginBottom: 24,
+  },
+  backupCodes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  backupCode: {
+    fontFamily: 'SpaceMono',
+    width: '40%',
+    textAlign: 'center',
+  },
+});
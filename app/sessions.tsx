@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, RefreshControl, ScrollView, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+import { AuthErrorBanner } from '@/components/AuthErrorBanner';
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLatestCallback } from '@/hooks/useLatestCallback';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { AuthSession } from '@/services/authTypes';
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+  macos: 'macOS',
+  windows: 'Windows',
+};
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? 'Unknown' : date.toLocaleString();
+}
+
+function SessionRow({
+  session,
+  onRevoke,
+  isRevoking,
+}: {
+  session: AuthSession;
+  onRevoke: (session: AuthSession) => void;
+  isRevoking: boolean;
+}) {
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+
+  return (
+    <ThemedView style={[styles.session, { borderColor: session.current ? tintColor : iconColor }]}>
+      <IconSymbol
+        name={session.platform === 'web' ? 'desktopcomputer' : 'iphone'}
+        size={28}
+        color={session.current ? tintColor : iconColor}
+      />
+
+      <ThemedView style={styles.sessionDetails}>
+        <ThemedText type="defaultSemiBold">{session.deviceName}</ThemedText>
+        {session.current && (
+          <ThemedText style={[styles.currentLabel, { color: tintColor }]}>This device</ThemedText>
+        )}
+        <ThemedText style={styles.sessionMeta}>
+          {PLATFORM_NAMES[session.platform] ?? session.platform}
+          {session.ipAddress ? ` · ${session.ipAddress}` : ''}
+        </ThemedText>
+        <ThemedText style={styles.sessionMeta}>
+          {session.current ? 'Active now' : `Last active ${formatTimestamp(session.lastSeenAt)}`}
+        </ThemedText>
+        <ThemedText style={styles.sessionMeta}>Signed in {formatTimestamp(session.createdAt)}</ThemedText>
+
+        {!session.current && (
+          <ThemedButton
+            title={isRevoking ? 'Signing Out...' : 'Sign Out'}
+            onPress={() => onRevoke(session)}
+            variant="secondary"
+            loading={isRevoking}
+            disabled={isRevoking}
+            style={styles.revokeButton}
+          />
+        )}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+export default function SessionsScreen() {
+  const { getSessions, revokeSession, revokeOtherSessions, error, clearError } = useAuth();
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  const loadSessions = useLatestCallback(async () => {
+    try {
+      const loadedSessions = await getSessions();
+      // Show this device first
+      setSessions([...loadedSessions].sort((a, b) => Number(b.current) - Number(a.current)));
+    } catch {
+      // The error is shown from the auth context
+    }
+  });
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadSessions();
+    setIsRefreshing(false);
+  };
+
+  const handleRevoke = async (session: AuthSession) => {
+    try {
+      setRevokingId(session.id);
+      clearError();
+
+      await revokeSession(session.id);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadSessions();
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const confirmRevoke = (session: AuthSession) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    Alert.alert('Sign Out Device', `Sign out of your account on ${session.deviceName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out', style: 'destructive', onPress: () => handleRevoke(session) },
+    ]);
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setIsRevokingOthers(true);
+      clearError();
+
+      await revokeOtherSessions();
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadSessions();
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const confirmRevokeOthers = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    Alert.alert('Sign Out Other Devices', 'Sign out of your account everywhere except this device?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out', style: 'destructive', onPress: handleRevokeOthers },
+    ]);
+  };
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.current);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+        <ThemedText style={styles.description}>
+          These devices are signed in to your account. Sign out any you don't recognize, then change your
+          password.
+        </ThemedText>
+
+        <AuthErrorBanner error={error} onRetry={loadSessions} />
+
+        {sessions === null && !error && <ActivityIndicator size="large" style={styles.loading} />}
+
+        {sessions?.map((session) => (
+          <SessionRow
+            key={session.id}
+            session={session}
+            onRevoke={confirmRevoke}
+            isRevoking={revokingId === session.id}
+          />
+        ))}
+
+        {hasOtherSessions && (
+          <ThemedButton
+            title={isRevokingOthers ? 'Signing Out...' : 'Sign Out All Other Devices'}
+            onPress={confirmRevokeOthers}
+            loading={isRevokingOthers}
+            disabled={isRevokingOthers || !!revokingId}
+            lightColor="#ff4444"
+            darkColor="#ff4444"
+            style={styles.revokeOthersButton}
+          />
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    gap: 12,
+    maxWidth: 600,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  description: {
+    opacity: 0.8,
+    marginBottom: 8,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  session: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  sessionDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  currentLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sessionMeta: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  revokeButton: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  revokeOthersButton: {
+    marginTop: 8,
+  },
+});
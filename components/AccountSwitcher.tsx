@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+/**
+ * Signed-in accounts, with the active one checked. Tapping another account switches to it.
+ */
+export function AccountSwitcher() {
+  const { user, accounts, switchAccount, addAccount } = useAuth();
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+
+  const handleSwitch = async (uid: string) => {
+    if (uid === user?.uid || switchingTo) {
+      return;
+    }
+
+    try {
+      setSwitchingTo(uid);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      // The tabs remount for the new account
+      await switchAccount(uid);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      // The error is shown from the auth context
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
+  const handleAddAccount = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Navigation to the login screen will be handled by the root layout
+    addAccount();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {accounts.map((account) => (
+        <TouchableOpacity
+          key={account.uid}
+          style={styles.row}
+          onPress={() => handleSwitch(account.uid)}
+          disabled={!!switchingTo}
+          activeOpacity={0.8}>
+          <ThemedView style={[styles.avatar, { borderColor: iconColor }]}>
+            <ThemedText type="defaultSemiBold">
+              {(account.displayName || account.email).charAt(0).toUpperCase()}
+            </ThemedText>
+          </ThemedView>
+
+          <ThemedView style={styles.details}>
+            <ThemedText type="defaultSemiBold" numberOfLines={1}>
+              {account.displayName || account.email}
+            </ThemedText>
+            {!!account.displayName && (
+              <ThemedText style={styles.email} numberOfLines={1}>
+                {account.email}
+              </ThemedText>
+            )}
+          </ThemedView>
+
+          {switchingTo === account.uid ? (
+            <ActivityIndicator size="small" />
+          ) : (
+            account.uid === user?.uid && <IconSymbol name="checkmark" size={20} color={tintColor} />
+          )}
+        </TouchableOpacity>
+      ))}
+
+      <ThemedButton
+        title="Add Account"
+        onPress={handleAddAccount}
+        variant="secondary"
+        disabled={!!switchingTo}
+        style={styles.addButton}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  details: {
+    flex: 1,
+  },
+  email: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  addButton: {
+    marginTop: 8,
+  },
+});
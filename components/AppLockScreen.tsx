@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedButton } from '@/components/ThemedButton';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLatestCallback } from '@/hooks/useLatestCallback';
+
+/**
+ * Covers the app while a restored or backgrounded session is locked, until the user
+ * unlocks with biometrics or the device passcode, or signs out instead
+ */
+export function AppLockScreen() {
+  const { user, isLocked, unlock, logout } = useAuth();
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = useLatestCallback(async () => {
+    try {
+      setIsUnlocking(true);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      const unlocked = await unlock();
+
+      Haptics.notificationAsync(
+        unlocked ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Error
+      );
+    } finally {
+      setIsUnlocking(false);
+    }
+  });
+
+  const handleSignOut = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Navigation to login will be handled by the root layout
+    await logout();
+  };
+
+  // Prompt straight away when the lock screen appears
+  useEffect(() => {
+    if (isLocked) {
+      handleUnlock();
+    }
+  }, [isLocked, handleUnlock]);
+
+  if (!isLocked) {
+    return null;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <IconSymbol name="lock.fill" size={64} color="#808080" style={styles.icon} />
+
+        <ThemedText style={styles.title} type="title">
+          App Locked
+        </ThemedText>
+
+        <ThemedText style={styles.subtitle}>
+          Unlock to continue as {user?.displayName ?? user?.email}.
+        </ThemedText>
+
+        <ThemedButton
+          title={isUnlocking ? 'Unlocking...' : 'Unlock'}
+          onPress={handleUnlock}
+          loading={isUnlocking}
+          disabled={isUnlocking}
+          style={styles.unlockButton}
+        />
+
+        <ThemedButton
+          title="Sign Out Instead"
+          onPress={handleSignOut}
+          variant="secondary"
+          disabled={isUnlocking}
+        />
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  icon: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+  unlockButton: {
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,72 @@
+import { StyleSheet } from 'react-native';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { AuthError, AuthErrorCode } from '@/services/authErrors';
+
+const ERROR_TITLES: Partial<Record<AuthErrorCode, string>> = {
+  INVALID_CREDENTIALS: 'Sign in failed',
+  EMAIL_NOT_VERIFIED: 'Email not verified',
+  EMAIL_IN_USE: 'Email already registered',
+  ACCOUNT_EXISTS: 'Account already exists',
+  SESSION_EXPIRED: 'Session expired',
+  RATE_LIMITED: 'Too many attempts',
+  NETWORK: "You're offline",
+  TIMEOUT: 'Request timed out',
+  SERVER: 'Server error',
+};
+
+export type AuthErrorBannerProps = {
+  error: AuthError | null;
+  // Seconds left before the user may retry after being rate limited
+  cooldown?: number;
+  onRetry?: () => void;
+};
+
+/**
+ * Inline error message for auth screens, tailored to the error code
+ */
+export function AuthErrorBanner({ error, cooldown = 0, onRetry }: AuthErrorBannerProps) {
+  if (!error) {
+    return null;
+  }
+
+  const title = ERROR_TITLES[error.code];
+  const canRetry = !!onRetry && error.isRetryable && error.code !== 'RATE_LIMITED';
+
+  return (
+    <ThemedView style={styles.container}>
+      {title && <ThemedText style={[styles.text, styles.title]}>{title}</ThemedText>}
+      <ThemedText style={styles.text}>{error.message}</ThemedText>
+
+      {error.code === 'RATE_LIMITED' && cooldown > 0 && (
+        <ThemedText style={styles.text}>You can try again in {cooldown}s.</ThemedText>
+      )}
+
+      {canRetry && <ThemedButton title="Try Again" variant="secondary" onPress={onRetry} style={styles.retryButton} />}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ff444420',
+    borderColor: '#ff4444',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: '600',
+  },
+  text: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  retryButton: {
+    marginBottom: 0,
+  },
+});
@@ -0,0 +1,66 @@
+import { StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedButton } from '@/components/ThemedButton';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+
+/**
+ * 403 screen for signed-in users who open an area their roles don't cover
+ */
+export function ForbiddenScreen() {
+  const router = useRouter();
+
+  const handleGoHome = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.replace('/(tabs)');
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <IconSymbol name="lock.fill" size={64} color="#808080" style={styles.icon} />
+
+        <ThemedText style={styles.title} type="title">
+          No Access
+        </ThemedText>
+
+        <ThemedText style={styles.subtitle}>
+          Your account doesn't have permission to view this page. Contact an administrator if you think this is a
+          mistake.
+        </ThemedText>
+
+        <ThemedButton title="Go Home" onPress={handleGoHome} variant="secondary" />
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  icon: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 22,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,53 @@
+import { StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useConnectivity } from '@/contexts/ConnectivityContext';
+
+/**
+ * Notice shown over every screen while the device is offline. Doesn't block touches,
+ * so screens showing cached data stay usable.
+ */
+export function OfflineBanner() {
+  const { isOffline } = useConnectivity();
+  const insets = useSafeAreaInsets();
+
+  if (!isOffline) {
+    return null;
+  }
+
+  // Inverted theme colors, so the banner stands out from the screen behind it
+  return (
+    <ThemedView
+      pointerEvents="none"
+      lightColor={Colors.light.text}
+      darkColor={Colors.dark.text}
+      style={[styles.container, { top: insets.top + 8 }]}>
+      <IconSymbol name="wifi.slash" size={18} color={Colors.light.icon} />
+      <ThemedText lightColor={Colors.light.background} darkColor={Colors.dark.background} style={styles.text}>
+        You're offline. Some actions are unavailable until you reconnect.
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    maxWidth: '90%',
+  },
+  text: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
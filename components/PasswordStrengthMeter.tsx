@@ -0,0 +1,52 @@
+import { StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { getPasswordStrength, MAX_PASSWORD_STRENGTH } from '@/utils/password';
+
+export function PasswordStrengthMeter({ password }: { password?: string }) {
+  if (!password) {
+    return null;
+  }
+
+  const passwordStrength = getPasswordStrength(password);
+
+  return (
+    <ThemedView style={styles.passwordStrengthContainer}>
+      <ThemedView style={styles.passwordStrengthBar}>
+        <ThemedView
+          style={[
+            styles.passwordStrengthFill,
+            {
+              width: `${(passwordStrength.strength / MAX_PASSWORD_STRENGTH) * 100}%`,
+              backgroundColor: passwordStrength.color,
+            },
+          ]}
+        />
+      </ThemedView>
+      <ThemedText style={[styles.passwordStrengthText, { color: passwordStrength.color }]}>
+        Password strength: {passwordStrength.text}
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  passwordStrengthContainer: {
+    marginVertical: 4,
+  },
+  passwordStrengthBar: {
+    height: 4,
+    backgroundColor: '#e0e0e0',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  passwordStrengthFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  passwordStrengthText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,44 @@
+import { ReactNode } from 'react';
+import { Href, Redirect } from 'expo-router';
+
+import { ForbiddenScreen } from '@/components/ForbiddenScreen';
+import { useAuthStatus } from '@/contexts/AuthContext';
+import { useCanAccess } from '@/hooks/useHasPermission';
+
+/**
+ * Guards every screen of an expo-router layout. Wrap the layout's navigator to declare
+ * the roles and permissions its screens need:
+ *
+ *   <RequireAccess roles={[ROLES.ADMIN]}>
+ *     <Stack />
+ *   </RequireAccess>
+ *
+ * Users without access see the 403 screen, or are sent to `redirectTo` if given.
+ */
+export function RequireAccess({
+  roles,
+  permissions,
+  redirectTo,
+  children,
+}: {
+  // Any one of these roles is enough
+  roles?: string[];
+  // Every one of these permissions is needed
+  permissions?: string[];
+  redirectTo?: Href;
+  children: ReactNode;
+}) {
+  const { isLoading, isAuthenticated } = useAuthStatus();
+  const allowed = useCanAccess({ roles, permissions });
+
+  // Signed-out users are sent to login by the root layout
+  if (isLoading || !isAuthenticated) {
+    return null;
+  }
+
+  if (!allowed) {
+    return redirectTo ? <Redirect href={redirectTo} /> : <ForbiddenScreen />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,28 @@
+import { ReactNode } from 'react';
+
+import { useCanAccess } from '@/hooks/useHasPermission';
+
+/**
+ * Renders its children only for users with the required roles and permissions,
+ * e.g. to hide an admin link or a premium feature. Shows `fallback` otherwise.
+ */
+export function RequirePermission({
+  permission,
+  role,
+  fallback = null,
+  children,
+}: {
+  // Every one of these permissions is needed
+  permission?: string | string[];
+  // Any one of these roles is enough
+  role?: string | string[];
+  fallback?: ReactNode;
+  children: ReactNode;
+}) {
+  const allowed = useCanAccess({
+    permissions: permission === undefined ? undefined : [permission].flat(),
+    roles: role === undefined ? undefined : [role].flat(),
+  });
+
+  return <>{allowed ? children : fallback}</>;
+}
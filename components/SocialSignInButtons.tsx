@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Platform, StyleSheet } from 'react-native';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Google from 'expo-auth-session/providers/google';
+import * as WebBrowser from 'expo-web-browser';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useLatestCallback } from '@/hooks/useLatestCallback';
+import { AuthError } from '@/services/authErrors';
+import { ProviderLoginRequest, SocialProvider } from '@/services/authTypes';
+import {
+  getAppleCredential,
+  getFakeProviderCredential,
+  GOOGLE_CLIENT_IDS,
+  isGoogleSignInConfigured,
+  SOCIAL_PROVIDER_NAMES,
+  usesFakeSocialProviders,
+} from '@/services/socialAuth';
+
+// Close the Google sign-in browser popup on web once it redirects back
+WebBrowser.maybeCompleteAuthSession();
+
+export type SocialSignInButtonsProps = {
+  // Called with the provider credential once a provider flow completes
+  onCredential: (credential: ProviderLoginRequest) => void;
+  disabled?: boolean;
+};
+
+type ProviderButtonProps = SocialSignInButtonsProps & {
+  onError: (error: AuthError) => void;
+};
+
+// Only rendered when a Google client ID is configured, since the request hook requires one
+function GoogleSignInButton({ onCredential, onError, disabled }: ProviderButtonProps) {
+  const [request, response, promptAsync] = Google.useIdTokenAuthRequest(GOOGLE_CLIENT_IDS);
+  // Parents pass new callbacks on every render, but each response should only be handled once
+  const handleCredential = useLatestCallback(onCredential);
+  const handleError = useLatestCallback(onError);
+
+  useEffect(() => {
+    if (response?.type === 'success' && response.params.id_token) {
+      handleCredential({ provider: 'google', idToken: response.params.id_token });
+    } else if (response?.type === 'error') {
+      handleError(new AuthError('UNKNOWN', response.error?.message || 'Google sign-in failed'));
+    }
+  }, [response, handleCredential, handleError]);
+
+  return (
+    <ThemedButton
+      title="Continue with Google"
+      onPress={() => promptAsync()}
+      variant="secondary"
+      disabled={!request || disabled}
+      style={styles.button}
+    />
+  );
+}
+
+// Apple requires its own button design for Sign in with Apple
+function AppleSignInButton({ onCredential, onError, disabled }: ProviderButtonProps) {
+  const colorScheme = useColorScheme();
+
+  const handlePress = async () => {
+    try {
+      const credential = await getAppleCredential();
+      if (credential) {
+        onCredential(credential);
+      }
+    } catch (error) {
+      onError(AuthError.from(error, 'Apple sign-in failed'));
+    }
+  };
+
+  return (
+    <AppleAuthentication.AppleAuthenticationButton
+      buttonType={AppleAuthentication.AppleAuthenticationButtonType.CONTINUE}
+      buttonStyle={
+        colorScheme === 'dark'
+          ? AppleAuthentication.AppleAuthenticationButtonStyle.WHITE
+          : AppleAuthentication.AppleAuthenticationButtonStyle.BLACK
+      }
+      cornerRadius={8}
+      onPress={disabled ? () => {} : handlePress}
+      style={[styles.button, styles.appleButton]}
+    />
+  );
+}
+
+/**
+ * "Continue with Google" and "Continue with Apple" buttons for the providers available on this device.
+ * With the mock backend or the Firebase Auth emulator they produce fake credentials instead.
+ */
+export function SocialSignInButtons({ onCredential, disabled }: SocialSignInButtonsProps) {
+  const [isAppleAvailable, setIsAppleAvailable] = useState(false);
+  const [providerError, setProviderError] = useState<AuthError | null>(null);
+
+  useEffect(() => {
+    if (Platform.OS === 'ios' && !usesFakeSocialProviders) {
+      AppleAuthentication.isAvailableAsync().then(setIsAppleAvailable);
+    }
+  }, []);
+
+  const handleCredential = (credential: ProviderLoginRequest) => {
+    setProviderError(null);
+    onCredential(credential);
+  };
+
+  const providers: SocialProvider[] = ['google', 'apple'];
+  const showGoogle = !usesFakeSocialProviders && isGoogleSignInConfigured();
+
+  if (!usesFakeSocialProviders && !showGoogle && !isAppleAvailable) {
+    return null;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.divider}>or</ThemedText>
+
+      {providerError && <ThemedText style={styles.errorText}>{providerError.message}</ThemedText>}
+
+      {usesFakeSocialProviders ? (
+        providers.map((provider) => (
+          <ThemedButton
+            key={provider}
+            title={`Continue with ${SOCIAL_PROVIDER_NAMES[provider]} (fake)`}
+            onPress={() => handleCredential(getFakeProviderCredential(provider))}
+            variant="secondary"
+            disabled={disabled}
+            style={styles.button}
+          />
+        ))
+      ) : (
+        <>
+          {showGoogle && (
+            <GoogleSignInButton onCredential={handleCredential} onError={setProviderError} disabled={disabled} />
+          )}
+          {isAppleAvailable && (
+            <AppleSignInButton onCredential={handleCredential} onError={setProviderError} disabled={disabled} />
+          )}
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  divider: {
+    textAlign: 'center',
+    opacity: 0.6,
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  button: {
+    marginBottom: 8,
+  },
+  appleButton: {
+    height: 48,
+  },
+});
@@ -13,6 +13,12 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'gearshape.fill': 'settings',
+  'lock.fill': 'lock',
+  'checkmark': 'check',
+  'iphone': 'smartphone',
+  'desktopcomputer': 'computer',
+  'wifi.slash': 'wifi-off',
 } as Partial<
   Record<
     import('expo-symbols').SymbolViewProps['name'],
@@ -1,5 +1,7 @@
-import { initializeApp, getApp, getApps } from "firebase/app";
-import Constants from "expo-constants";
+import { FirebaseApp, initializeApp, getApp, getApps } from "firebase/app";
+import { Auth, connectAuthEmulator } from "firebase/auth";
+
+import { initializeFirebaseAuth } from "@/config/firebaseAuth";
 
 // Firebase configuration
 const firebaseConfig = {
@@ -12,7 +14,7 @@ const firebaseConfig = {
 };
 
 // Initialize Firebase
-let app;
+let app: FirebaseApp;
 
 if (getApps().length === 0) {
   app = initializeApp(firebaseConfig);
@@ -20,10 +22,23 @@ if (getApps().length === 0) {
   app = getApp();
 }
 
-// Firebase Authentication is disabled in favor of custom backend authentication
-// Comment out auth initialization to prevent conflicts
-// import { getAuth } from "firebase/auth";
-// export const auth = getAuth(app);
+// Firebase Authentication is only initialized when the Firebase auth backend is in use,
+// so the custom REST backend works without Firebase Auth credentials
+let auth: Auth | null = null;
+
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    // Persisted in AsyncStorage on iOS and Android, and in IndexedDB on web
+    auth = initializeFirebaseAuth(app);
+
+    // Point the SDK at the local Auth emulator, e.g. FIREBASE_AUTH_EMULATOR_HOST=localhost:9099
+    const emulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+    if (emulatorHost) {
+      connectAuthEmulator(auth, `http://${emulatorHost}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+}
 
 // Export the initialized app for other Firebase services (Firestore, Storage, etc.)
 export default app;
@@ -0,0 +1,16 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FirebaseApp } from 'firebase/app';
+import * as FirebaseAuth from 'firebase/auth';
+
+// Only the SDK's React Native build has it, but `firebase/auth` is typed after the web build
+const { getReactNativePersistence } = FirebaseAuth as typeof FirebaseAuth & {
+  getReactNativePersistence: (storage: typeof AsyncStorage) => FirebaseAuth.Persistence;
+};
+
+/**
+ * Create Firebase Auth for iOS and Android; see `firebaseAuth.web.ts` for web.
+ * `getAuth` would keep the signed-in user in memory only, signing everyone out on every launch.
+ */
+export function initializeFirebaseAuth(app: FirebaseApp): FirebaseAuth.Auth {
+  return FirebaseAuth.initializeAuth(app, { persistence: getReactNativePersistence(AsyncStorage) });
+}
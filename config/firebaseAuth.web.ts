@@ -0,0 +1,9 @@
+import { FirebaseApp } from 'firebase/app';
+import { Auth, getAuth } from 'firebase/auth';
+
+/**
+ * Create Firebase Auth in the browser, which persists the signed-in user in IndexedDB
+ */
+export function initializeFirebaseAuth(app: FirebaseApp): Auth {
+  return getAuth(app);
+}
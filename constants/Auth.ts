@@ -0,0 +1,28 @@
+import Constants from 'expo-constants';
+
+/**
+ * Authentication behaviour settings.
+ */
+
+// Routes opened from email links, reachable whether or not the user is signed in
+export const PUBLIC_AUTH_ROUTES = ['verify-email', 'reset-password'];
+
+// Keep signed-in users on the verify-email screen until their address is verified. Off by default,
+// so existing users with unverified addresses aren't locked out; turn on with REQUIRE_VERIFIED_EMAIL=true
+export const REQUIRE_VERIFIED_EMAIL: boolean =
+  Constants.expoConfig?.extra?.requireVerifiedEmail ?? process.env.REQUIRE_VERIFIED_EMAIL === 'true';
+
+// How often the verify-email screen checks whether the address has been verified
+export const VERIFICATION_POLL_INTERVAL_MS = 5000;
+
+// Minimum wait between verification email resends
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+// With app lock on, require biometrics again after the app has been in the background this long
+export const APP_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Issuer shown next to the account in authenticator apps
+export const MFA_ISSUER = Constants.expoConfig?.name ?? 'Expo App';
+
+// Minimum wait between SMS code resends during sign-in
+export const MFA_SMS_RESEND_COOLDOWN_SECONDS = 30;
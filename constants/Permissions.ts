@@ -0,0 +1,17 @@
+/**
+ * Roles and permissions the app checks before showing protected areas.
+ * The backend decides who holds them and which permissions each role grants;
+ * the app only reads them from `/auth/me` and the access token's claims.
+ */
+
+export const ROLES = {
+  ADMIN: 'admin',
+  PREMIUM: 'premium',
+} as const;
+
+export const PERMISSIONS = {
+  // Admin tools under /admin
+  VIEW_ADMIN: 'admin:view',
+  // Content reserved for paying subscribers
+  VIEW_PREMIUM: 'premium:view',
+} as const;
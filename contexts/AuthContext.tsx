@@ -1,6 +1,45 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import * as SecureStore from 'expo-secure-store';
-import { authService, AuthResponse, LoginRequest, RegisterRequest, ResetPasswordRequest } from '@/services/authService';
+import { authBackend } from '@/services/authBackend';
+import { AuthError } from '@/services/authErrors';
+import { AuthEventEmitter, SignOutReason } from '@/services/authEvents';
+import { authDataSchema } from '@/services/authSchemas';
+import {
+  AuthResponse,
+  AuthSession,
+  LoginRequest,
+  MfaChallenge,
+  MfaMethod,
+  ProviderLoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  TotpEnrollmentResponse,
+  UpdateProfileRequest,
+  UserResponse,
+  VerifyMfaRequest,
+} from '@/services/authTypes';
+import { useTokenRefreshScheduler } from '@/hooks/useTokenRefreshScheduler';
+import { useAppLockTimeout } from '@/hooks/useAppLockTimeout';
+import { useSessionSync } from '@/hooks/useSessionSync';
+import { useLatestCallback } from '@/hooks/useLatestCallback';
+import { useConnectivity } from '@/contexts/ConnectivityContext';
+import { authenticateWithBiometrics, isAppLockAvailable } from '@/services/appLock';
+import { APP_LOCK_TIMEOUT_MS } from '@/constants/Auth';
+import {
+  getActiveAccountId,
+  getActiveToken,
+  getStoredAccountIds,
+  getStoredSession,
+  getStoredUsers,
+  migrateLegacySession,
+  removeSession,
+  saveSession,
+  saveSessionUser,
+  setActiveAccountId,
+  StoredSession,
+} from '@/services/sessionStorage';
+import { tokenStore } from '@/services/tokenStore';
+import { getTokenExpiry } from '@/utils/jwt';
+import { withTokenClaims } from '@/utils/permissions';
 
 // User interface
 export interface User {
@@ -8,47 +47,173 @@ export interface User {
   email: string;
   displayName?: string;
   emailVerified: boolean;
+  mfaMethods?: MfaMethod[];
+  // From `/auth/me` and the access token's claims; see `utils/permissions.ts`
+  roles?: string[];
+  permissions?: string[];
 }
 
+// Provider sign-in waiting to be linked to the existing account with the same email
+export interface PendingProviderLink {
+  email: string;
+  credential: ProviderLoginRequest;
+}
+
+// How a sign-in ended: signed in, or waiting for the second factor in `mfaChallenge`
+export type SignInStatus = NonNullable<AuthResponse['status']>;
+
 // Auth context state interface
 interface AuthState {
   user: User | null;
+  // Every account with a stored session, including the active one
+  accounts: User[];
+  // Set while signing in to another account on top of the active one
+  isAddingAccount: boolean;
+  // Set while the stored session is restored on launch and while signing out; form actions track their own progress
   isLoading: boolean;
   isAuthenticated: boolean;
-  error: string | null;
+  error: AuthError | null;
+  isLocked: boolean;
+  isAppLockEnabled: boolean;
+  pendingProviderLink: PendingProviderLink | null;
+  // Set while a sign-in waits for its second factor
+  mfaChallenge: MfaChallenge | null;
+  // Whether the device is online, or null until the first network check finishes
+  isConnected: boolean | null;
+  // Set while the server couldn't be reached to confirm the restored session, so the cached user is shown
+  isUnverifiedSession: boolean;
 }
 
 // Auth context actions interface
 interface AuthActions {
-  login: (credentials: LoginRequest) => Promise<void>;
+  login: (credentials: LoginRequest) => Promise<SignInStatus>;
   register: (userData: RegisterRequest) => Promise<void>;
+  loginWithProvider: (credential: ProviderLoginRequest) => Promise<SignInStatus>;
+  linkProvider: (password: string) => Promise<void>;
+  cancelProviderLink: () => void;
+  verifyMfa: (code: string, method: VerifyMfaRequest['method']) => Promise<void>;
+  sendMfaSmsCode: () => Promise<void>;
+  cancelMfa: () => void;
+  startTotpEnrollment: () => Promise<NonNullable<TotpEnrollmentResponse['data']>>;
+  startSmsEnrollment: (phoneNumber: string) => Promise<void>;
+  confirmMfaEnrollment: (method: MfaMethod, code: string) => Promise<string[]>;
+  disableMfa: (password: string) => Promise<void>;
+  getSessions: () => Promise<AuthSession[]>;
+  revokeSession: (sessionId: string) => Promise<void>;
+  revokeOtherSessions: () => Promise<void>;
   logout: () => Promise<void>;
+  switchAccount: (uid: string) => Promise<void>;
+  addAccount: () => void;
+  cancelAddAccount: () => void;
   resetPassword: (email: string) => Promise<void>;
+  confirmPasswordReset: (token: string, password: string) => Promise<void>;
   refreshToken: () => Promise<void>;
+  refreshUser: () => Promise<User | null>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerificationEmail: (email?: string) => Promise<void>;
+  updateProfile: (profileData: UpdateProfileRequest) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  changeEmail: (newEmail: string, password: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
+  unlock: () => Promise<boolean>;
+  setAppLockEnabled: (enabled: boolean) => Promise<void>;
   clearError: () => void;
 }
 
 // Combined auth context interface
-interface AuthContextType extends AuthState, AuthActions {}
+interface AuthContextType extends AuthState, AuthActions {
+  // Auth lifecycle events, for integrations such as caches and analytics; see `useAuthEvent`
+  events: AuthEventEmitter;
+}
 
 // Create the context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Secure storage keys
-const TOKEN_KEY = 'auth_token';
-const REFRESH_TOKEN_KEY = 'refresh_token';
-const USER_KEY = 'user_data';
+// Token store keys; sessions are kept in `services/sessionStorage`
+const APP_LOCK_KEY_PREFIX = 'app_lock_enabled_';
+
+// The app lock is opted into per user, so it survives signing out and back in
+const getAppLockKey = (uid: string): string => APP_LOCK_KEY_PREFIX + uid;
+
+const getStoredAppLockEnabled = async (uid: string): Promise<boolean> => {
+  return (await tokenStore.getItem(getAppLockKey(uid))) === 'true';
+};
+
+// Check a sign-in or refresh response's session before it's stored, whichever backend it came from
+const parseAuthData = (authData: AuthResponse): NonNullable<AuthResponse['data']> => {
+  const result = authDataSchema.safeParse(authData.data);
+  if (!result.success) {
+    throw new AuthError('SERVER', 'Invalid authentication data received', { cause: result.error });
+  }
+  return result.data;
+};
 
 // Auth Provider component
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [accounts, setAccounts] = useState<User[]>([]);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AuthError | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isAppLockEnabled, setIsAppLockEnabledState] = useState(false);
+  const [pendingProviderLink, setPendingProviderLink] = useState<PendingProviderLink | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [isUnverifiedSession, setIsUnverifiedSession] = useState(false);
+  const { isConnected } = useConnectivity();
 
   // Check if user is authenticated on app start
+  const restoreStoredSession = useLatestCallback(() => checkAuthStatus());
+
+  useEffect(() => {
+    restoreStoredSession();
+  }, [restoreStoredSession]);
+
+  // Confirm a session restored offline once the connection is back
+  const verifyUnverifiedSession = useLatestCallback(() => {
+    if (isUnverifiedSession) {
+      verifySession();
+    }
+  });
+
+  useEffect(() => {
+    if (isConnected) {
+      verifyUnverifiedSession();
+    }
+  }, [isConnected, verifyUnverifiedSession]);
+
+  // Let the auth backend persist refreshed tokens and sign out when refreshing fails
+  const handleRefreshedSession = useLatestCallback((authData: AuthResponse) => storeRefreshedSession(authData));
+  const handleSessionExpired = useLatestCallback(async () => {
+    await clearAuthData('sessionExpired');
+    setError(new AuthError('SESSION_EXPIRED'));
+  });
+
   useEffect(() => {
-    checkAuthStatus();
-  }, []);
+    authBackend.setSessionHandlers({
+      onTokenRefreshed: handleRefreshedSession,
+      onSessionExpired: handleSessionExpired,
+    });
+
+    return () => authBackend.setSessionHandlers({});
+  }, [handleRefreshedSession, handleSessionExpired]);
+
+  // Report errors shown to the user to auth event listeners
+  useEffect(() => {
+    if (error) {
+      authBackend.events.emit('authError', { error });
+    }
+  }, [error]);
+
+  // Refresh the access token shortly before it expires
+  useTokenRefreshScheduler(tokenExpiresAt, () => refreshToken());
+
+  // Lock again when the app comes back after a while in the background
+  useAppLockTimeout(!!user && isAppLockEnabled, APP_LOCK_TIMEOUT_MS, () => setIsLocked(true));
+
+  // Pick up sign-outs, token refreshes and profile updates from other tabs, or from while the app was in the background
+  useSessionSync(() => syncStoredSession());
 
   /**
    * Check authentication status from secure storage
@@ -56,88 +221,242 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const checkAuthStatus = async (): Promise<void> => {
     try {
       setIsLoading(true);
-      const token = await SecureStore.getItemAsync(TOKEN_KEY);
-      const userData = await SecureStore.getItemAsync(USER_KEY);
-
-      if (token && userData) {
-        const parsedUser = JSON.parse(userData);
-        setUser(parsedUser);
-
-        // Verify token validity by fetching current user
-        try {
-          const currentUserData = await authService.getCurrentUser();
-          if (currentUserData) {
-            setUser(currentUserData.user);
-            await SecureStore.setItemAsync(USER_KEY, JSON.stringify(currentUserData.user));
-          }
-        } catch (tokenError) {
-          // Token is invalid, clear storage
-          await clearAuthData();
-        }
+      await migrateLegacySession();
+
+      // Fall back to another signed-in account if the active one was signed out
+      const activeAccountId = (await getActiveAccountId()) ?? (await getStoredAccountIds())[0];
+      const session = activeAccountId ? await getStoredSession(activeAccountId) : null;
+      setAccounts(await getStoredUsers());
+
+      if (session) {
+        await setActiveAccountId(session.user.uid);
+        await authBackend.switchAccount(session.user.uid);
+        await restoreSession(session);
+        // Show the cached user straight away; a slow server only delays confirming the session
+        verifySession();
       }
     } catch (error) {
       console.error('Error checking auth status:', error);
-      await clearAuthData();
+      await clearAuthData('sessionExpired');
     } finally {
       setIsLoading(false);
     }
   };
 
   /**
-   * Store authentication data securely
+   * Verify the session's token by fetching the current user. A rejected session is cleared,
+   * but when the server can't be reached the cached user stays signed in until it can be checked.
+   * Never rejects, so it can run in the background.
    */
-  const storeAuthData = async (authData: AuthResponse): Promise<void> => {
-    if (!authData.data || !authData.data.token) {
-      throw new Error('Invalid authentication data received');
+  const verifySession = async (): Promise<void> => {
+    const verifiedAccountId = await getActiveAccountId();
+    // The user may have switched accounts or signed out while the server was answering
+    const isStillActive = async () => (await getActiveAccountId()) === verifiedAccountId;
+
+    try {
+      const currentUserData = await authBackend.getCurrentUser();
+      if (!(await isStillActive())) {
+        return;
+      }
+      if (currentUserData) {
+        await updateStoredUser(currentUserData.user);
+      }
+      setIsUnverifiedSession(false);
+    } catch (verifyError) {
+      if (!(await isStillActive())) {
+        return;
+      }
+      if (AuthError.from(verifyError).isRetryable) {
+        setIsUnverifiedSession(true);
+      } else {
+        await clearAuthData('sessionExpired');
+      }
     }
+  };
+
+  /**
+   * Show a stored session as the signed-in account, locking it if its user opted into the app lock
+   */
+  const restoreSession = async (session: StoredSession): Promise<void> => {
+    const lockEnabled = await getStoredAppLockEnabled(session.user.uid);
+    setIsAppLockEnabledState(lockEnabled);
+    setIsLocked(lockEnabled);
+    setUser(session.user);
+    setTokenExpiresAt(getTokenExpiry(session.token));
+  };
+
+  /**
+   * Drop state that belongs to the previous account
+   */
+  const resetUserScopedState = (): void => {
+    setMfaChallenge(null);
+    setPendingProviderLink(null);
+    setIsAddingAccount(false);
+    setError(null);
+  };
+
+  /**
+   * Show another stored account as the signed-in one, once `accountSwitched` listeners dropped the previous one's data
+   * and `signedIn` listeners, e.g. analytics, identified the new one
+   */
+  const resumeSwitchedSession = async (session: StoredSession, previousUid: string | null): Promise<void> => {
+    resetUserScopedState();
+    await authBackend.events.emit('accountSwitched', { previousUid, user: session.user });
+    await authBackend.events.emit('signedIn', { user: session.user });
+    await restoreSession(session);
+  };
+
+  /**
+   * Store authentication data securely and make its account the active one
+   */
+  const storeAuthData = async (authData: AuthResponse): Promise<void> => {
+    const { token, refreshToken, user: sessionUser } = parseAuthData(authData);
+    const signedInUser = withTokenClaims(sessionUser, token);
 
     try {
-      await SecureStore.setItemAsync(TOKEN_KEY, authData.data.token);
-      await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, authData.data.refreshToken);
-      await SecureStore.setItemAsync(USER_KEY, JSON.stringify(authData.data.user));
-      setUser(authData.data.user);
+      await saveSession({ token, refreshToken, user: signedInUser });
+      await setActiveAccountId(signedInUser.uid);
+      setIsAppLockEnabledState(await getStoredAppLockEnabled(signedInUser.uid));
+      setUser(signedInUser);
+      setTokenExpiresAt(getTokenExpiry(token));
+      setIsUnverifiedSession(false);
+      setIsAddingAccount(false);
       setError(null);
+      setAccounts(await getStoredUsers());
     } catch (error) {
-      throw new Error('Failed to store authentication data');
+      throw new AuthError('UNKNOWN', 'Failed to store authentication data', { cause: error });
+    }
+
+    await authBackend.events.emit('signedIn', { user: signedInUser });
+  };
+
+  /**
+   * Store tokens from a background refresh, which may finish after switching to another account
+   */
+  const storeRefreshedSession = async (authData: AuthResponse): Promise<void> => {
+    const { token, refreshToken, user: sessionUser } = parseAuthData(authData);
+    const refreshedUser = withTokenClaims(sessionUser, token);
+    await saveSession({ token, refreshToken, user: refreshedUser });
+    if ((await getActiveAccountId()) === refreshedUser.uid) {
+      setUser(refreshedUser);
+      setTokenExpiresAt(getTokenExpiry(token));
+      setIsUnverifiedSession(false);
     }
   };
 
   /**
-   * Clear authentication data
+   * Store the session from a sign-in response, or hold on to the MFA challenge if a second factor is needed
+   */
+  const completeSignIn = async (authResponse: AuthResponse, fallbackMessage: string): Promise<SignInStatus> => {
+    if (authResponse.success && authResponse.status === 'mfa_required' && authResponse.mfa) {
+      setMfaChallenge(authResponse.mfa);
+      return 'mfa_required';
+    } else if (authResponse.success && authResponse.data) {
+      setMfaChallenge(null);
+      await storeAuthData(authResponse);
+      return 'authenticated';
+    } else {
+      throw new AuthError('UNKNOWN', authResponse.message || fallbackMessage);
+    }
+  };
+
+  /**
+   * Update the signed-in user in state and secure storage
+   */
+  const updateStoredUser = async (profile: User): Promise<void> => {
+    // Profile responses don't repeat the roles and permissions granted as token claims
+    const updatedUser = withTokenClaims(profile, await getActiveToken());
+    await saveSessionUser(updatedUser);
+    setUser(updatedUser);
+    setAccounts(await getStoredUsers());
+    await authBackend.events.emit('userUpdated', { user: updatedUser });
+  };
+
+  /**
+   * Show no account as signed in, without touching storage
+   */
+  const resetSignedInState = (): void => {
+    setUser(null);
+    setTokenExpiresAt(null);
+    setIsUnverifiedSession(false);
+    setIsLocked(false);
+    setIsAppLockEnabledState(false);
+    resetUserScopedState();
+  };
+
+  /**
+   * Clear the active account's authentication data. Other signed-in accounts stay stored.
+   * `signedOut` listeners finish before the app shows the account as signed out.
    */
-  const clearAuthData = async (): Promise<void> => {
+  const clearAuthData = async (reason: SignOutReason): Promise<void> => {
     try {
-      await SecureStore.deleteItemAsync(TOKEN_KEY);
-      await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
-      await SecureStore.deleteItemAsync(USER_KEY);
-      setUser(null);
-      setError(null);
+      const activeAccountId = await getActiveAccountId();
+      if (activeAccountId) {
+        await removeSession(activeAccountId);
+        await authBackend.events.emit('signedOut', { uid: activeAccountId, reason });
+      }
+      resetSignedInState();
+      setAccounts(await getStoredUsers());
     } catch (error) {
       console.error('Error clearing auth data:', error);
     }
   };
 
+  /**
+   * Read the stored sessions again after they changed elsewhere, following the active account there.
+   * This only reads storage, so tabs reacting to each other's changes can't trigger one another.
+   */
+  const syncStoredSession = async (): Promise<void> => {
+    const activeAccountId = await getActiveAccountId();
+    const session = activeAccountId ? await getStoredSession(activeAccountId) : null;
+    setAccounts(await getStoredUsers());
+
+    if (!session) {
+      if (user) {
+        // Listeners in this tab may need to clear its own caches too
+        await authBackend.events.emit('signedOut', { uid: user.uid, reason: 'elsewhere' });
+        resetSignedInState();
+      }
+    } else if (session.user.uid !== user?.uid) {
+      await authBackend.switchAccount(session.user.uid);
+      await resumeSwitchedSession(session, user?.uid ?? null);
+    } else {
+      setUser(session.user);
+      // On web access tokens aren't shared between tabs, so this tab keeps refreshing its own
+      const expiresAt = getTokenExpiry(session.token);
+      if (expiresAt !== null) {
+        setTokenExpiresAt(expiresAt);
+      }
+    }
+  };
+
+  /**
+   * After signing out of one account, continue with the next signed-in account that can be resumed
+   */
+  const switchToNextAccount = async (): Promise<void> => {
+    for (const uid of await getStoredAccountIds()) {
+      try {
+        await switchAccount(uid);
+        return;
+      } catch {
+        // switchAccount drops sessions that can't be resumed; try the next one
+      }
+    }
+    setError(null);
+  };
+
   /**
    * Login user
    */
-  const login = async (credentials: LoginRequest): Promise<void> => {
+  const login = async (credentials: LoginRequest): Promise<SignInStatus> => {
     try {
-      setIsLoading(true);
       setError(null);
 
-      const authResponse = await authService.login(credentials);
-
-      if (authResponse.success && authResponse.data) {
-        await storeAuthData(authResponse);
-      } else {
-        throw new Error(authResponse.message || 'Login failed');
-      }
+      const authResponse = await authBackend.login(credentials);
+      return await completeSignIn(authResponse, 'Login failed');
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Login failed';
-      setError(errorMessage);
+      setError(AuthError.from(error, 'Login failed'));
       throw error;
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -146,25 +465,124 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    */
   const register = async (userData: RegisterRequest): Promise<void> => {
     try {
-      setIsLoading(true);
       setError(null);
 
-      const authResponse = await authService.register(userData);
+      const authResponse = await authBackend.register(userData);
 
       if (authResponse.success && authResponse.data) {
         await storeAuthData(authResponse);
       } else {
-        throw new Error(authResponse.message || 'Registration failed');
+        throw new AuthError('UNKNOWN', authResponse.message || 'Registration failed');
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Registration failed';
-      setError(errorMessage);
+      setError(AuthError.from(error, 'Registration failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Sign in, or sign up, with a Google or Apple credential.
+   * If the email belongs to another account, the credential is kept in `pendingProviderLink`
+   * until the user confirms that account's password with `linkProvider`.
+   */
+  const loginWithProvider = async (credential: ProviderLoginRequest): Promise<SignInStatus> => {
+    try {
+      setError(null);
+      setPendingProviderLink(null);
+
+      const authResponse = await authBackend.loginWithProvider(credential);
+      return await completeSignIn(authResponse, 'Sign in failed');
+    } catch (error) {
+      const authError = AuthError.from(error, 'Sign in failed');
+      if (authError.code === 'ACCOUNT_EXISTS' && authError.email) {
+        setPendingProviderLink({ email: authError.email, credential });
+      }
+      setError(authError);
+      throw error;
+    }
+  };
+
+  /**
+   * Link the pending provider sign-in to the existing account, confirming its password, and sign in
+   */
+  const linkProvider = async (password: string): Promise<void> => {
+    try {
+      setError(null);
+
+      if (!pendingProviderLink) {
+        throw new AuthError('UNKNOWN', 'There is no account to link');
+      }
+
+      const authResponse = await authBackend.linkProvider({ ...pendingProviderLink, password });
+      await completeSignIn(authResponse, 'Account linking failed');
+      setPendingProviderLink(null);
+    } catch (error) {
+      setError(AuthError.from(error, 'Account linking failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Drop the pending provider sign-in without linking it
+   */
+  const cancelProviderLink = (): void => {
+    setPendingProviderLink(null);
+    setError(null);
+  };
+
+  /**
+   * Finish a sign-in that needs a second factor with a TOTP, SMS or backup code
+   */
+  const verifyMfa = async (code: string, method: VerifyMfaRequest['method']): Promise<void> => {
+    try {
+      setError(null);
+
+      if (!mfaChallenge) {
+        throw new AuthError('EXPIRED_TOKEN', 'This sign-in attempt has expired. Please sign in again.');
+      }
+
+      const authResponse = await authBackend.verifyMfa({ challengeId: mfaChallenge.challengeId, code, method });
+      await completeSignIn(authResponse, 'Verification failed');
+    } catch (error) {
+      const authError = AuthError.from(error, 'Verification failed');
+      // The challenge is gone, so the user has to sign in again
+      if (authError.code === 'EXPIRED_TOKEN') {
+        setMfaChallenge(null);
+      }
+      setError(authError);
       throw error;
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  /**
+   * Text a code for the pending MFA challenge to the enrolled phone
+   */
+  const sendMfaSmsCode = async (): Promise<void> => {
+    try {
+      setError(null);
+
+      if (!mfaChallenge) {
+        throw new AuthError('EXPIRED_TOKEN', 'This sign-in attempt has expired. Please sign in again.');
+      }
+
+      const response = await authBackend.sendMfaSmsCode(mfaChallenge.challengeId);
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to send code');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to send code'));
+      throw error;
+    }
+  };
+
+  /**
+   * Abandon the pending MFA challenge and go back to signing in
+   */
+  const cancelMfa = (): void => {
+    setMfaChallenge(null);
+    setError(null);
+  };
+
   /**
    * Logout user
    */
@@ -174,41 +592,102 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       // Call logout endpoint to invalidate token on server
       try {
-        await authService.logout();
+        await authBackend.logout();
       } catch (error) {
         // Continue with local logout even if server call fails
         console.warn('Server logout failed:', error);
       }
 
-      await clearAuthData();
+      await clearAuthData('logout');
+      await switchToNextAccount();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Logout failed';
-      setError(errorMessage);
+      setError(AuthError.from(error, 'Logout failed'));
       throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Make another signed-in account the active one, without signing out of the current one
+   */
+  const switchAccount = async (uid: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const session = await getStoredSession(uid);
+      if (!session) {
+        throw new AuthError('SESSION_EXPIRED', 'Please sign in to this account again.');
+      }
+
+      // None after signing out, when continuing with the next account
+      const previousUid = await getActiveAccountId();
+      await authBackend.switchAccount(uid);
+      await setActiveAccountId(uid);
+      await resumeSwitchedSession(session, previousUid);
+    } catch (error) {
+      const authError = AuthError.from(error, 'Failed to switch accounts');
+      // The session can't be resumed; the user can add the account again
+      if (authError.code === 'SESSION_EXPIRED') {
+        await removeSession(uid);
+        setAccounts(await getStoredUsers());
+      }
+      setError(authError);
+      throw error;
+    }
+  };
+
+  /**
+   * Go to the login screen to sign in to another account, keeping the current one signed in
+   */
+  const addAccount = (): void => {
+    setError(null);
+    setIsAddingAccount(true);
+  };
+
+  /**
+   * Return to the active account without adding another one
+   */
+  const cancelAddAccount = (): void => {
+    setMfaChallenge(null);
+    setPendingProviderLink(null);
+    setIsAddingAccount(false);
+    setError(null);
+  };
+
   /**
    * Reset password
    */
   const resetPassword = async (email: string): Promise<void> => {
     try {
-      setIsLoading(true);
       setError(null);
 
-      const response = await authService.resetPassword({ email });
+      const response = await authBackend.resetPassword({ email });
 
       if (!response.success) {
-        throw new Error(response.message || 'Password reset failed');
+        throw new AuthError('UNKNOWN', response.message || 'Password reset failed');
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Password reset failed';
-      setError(errorMessage);
+      setError(AuthError.from(error, 'Password reset failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Complete a password reset with the token from the reset email
+   */
+  const confirmPasswordReset = async (token: string, password: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.confirmPasswordReset({ token, password });
+
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Password reset failed');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Password reset failed'));
       throw error;
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -217,24 +696,304 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    */
   const refreshToken = async (): Promise<void> => {
     try {
-      const storedRefreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+      // The backend persists the new tokens and clears the session on failure via the session handlers
+      await authBackend.refreshSession();
+    } catch (error) {
+      setError(AuthError.from(error, 'Token refresh failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Reload the signed-in user's profile, e.g. to pick up a verified email address
+   */
+  const refreshUser = async (): Promise<User | null> => {
+    // Errors are left to the caller, since this is often used for background polling
+    const currentUserData = await authBackend.getCurrentUser();
+    if (!currentUserData) {
+      return null;
+    }
+
+    await updateStoredUser(currentUserData.user);
+    return currentUserData.user;
+  };
+
+  /**
+   * Verify email address with the token from the verification link
+   */
+  const verifyEmail = async (token: string): Promise<void> => {
+    try {
+      setError(null);
 
-      if (!storedRefreshToken) {
-        throw new Error('No refresh token available');
+      const response = await authBackend.verifyEmail(token);
+      if (!response.success) {
+        throw new AuthError('INVALID_TOKEN', response.message);
       }
 
-      const authResponse = await authService.refreshToken(storedRefreshToken);
+      // The link may be opened while signed out; only signed-in users have a profile to update
+      if (user) {
+        await refreshUser();
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Email verification failed'));
+      throw error;
+    }
+  };
 
-      if (authResponse.success && authResponse.data) {
-        await storeAuthData(authResponse);
+  /**
+   * Send another verification email to the signed-in user, or to `email` when signed out
+   */
+  const resendVerificationEmail = async (email?: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.resendVerificationEmail(email);
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to send verification email');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to send verification email'));
+      throw error;
+    }
+  };
+
+  /**
+   * Store the user returned by an account update
+   */
+  const applyUserResponse = async (response: UserResponse, fallbackMessage: string): Promise<void> => {
+    if (!response.success) {
+      throw new AuthError('UNKNOWN', response.message || fallbackMessage);
+    }
+    if (response.data?.user) {
+      await updateStoredUser(response.data.user);
+    }
+  };
+
+  /**
+   * Update the signed-in user's profile
+   */
+  const updateProfile = async (profileData: UpdateProfileRequest): Promise<void> => {
+    try {
+      setError(null);
+      await applyUserResponse(await authBackend.updateProfile(profileData), 'Profile update failed');
+    } catch (error) {
+      setError(AuthError.from(error, 'Profile update failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Change password, confirming the current one
+   */
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.changePassword({ currentPassword, newPassword });
+
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Password change failed');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Password change failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Change email address, confirming the password. The new address has to be verified again.
+   */
+  const changeEmail = async (newEmail: string, password: string): Promise<void> => {
+    try {
+      setError(null);
+      await applyUserResponse(await authBackend.changeEmail({ newEmail, password }), 'Email change failed');
+    } catch (error) {
+      setError(AuthError.from(error, 'Email change failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Permanently delete the account, confirming the password, and sign out locally
+   */
+  const deleteAccount = async (password: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.deleteAccount({ password });
+
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Account deletion failed');
+      }
+      if (user) {
+        await tokenStore.deleteItem(getAppLockKey(user.uid));
+      }
+      await clearAuthData('accountDeleted');
+      await switchToNextAccount();
+    } catch (error) {
+      setError(AuthError.from(error, 'Account deletion failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Start setting up an authenticator app, returning the secret to show as a QR code
+   */
+  const startTotpEnrollment = async (): Promise<NonNullable<TotpEnrollmentResponse['data']>> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.startTotpEnrollment();
+      if (!response.success || !response.data) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to start two-factor setup');
+      }
+      return response.data;
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to start two-factor setup'));
+      throw error;
+    }
+  };
+
+  /**
+   * Start adding a phone number for SMS codes, texting it a confirmation code
+   */
+  const startSmsEnrollment = async (phoneNumber: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.startSmsEnrollment(phoneNumber);
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to send code');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to send code'));
+      throw error;
+    }
+  };
+
+  /**
+   * Confirm a second factor with a code from it, returning the new backup codes
+   */
+  const confirmMfaEnrollment = async (method: MfaMethod, code: string): Promise<string[]> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.confirmMfaEnrollment({ method, code });
+      if (!response.success || !response.data) {
+        throw new AuthError('UNKNOWN', response.message || 'Two-factor setup failed');
+      }
+
+      await updateStoredUser(response.data.user);
+      return response.data.backupCodes;
+    } catch (error) {
+      setError(AuthError.from(error, 'Two-factor setup failed'));
+      throw error;
+    }
+  };
+
+  /**
+   * Turn off multi-factor authentication, confirming the password
+   */
+  const disableMfa = async (password: string): Promise<void> => {
+    try {
+      setError(null);
+      await applyUserResponse(await authBackend.disableMfa({ password }), 'Failed to turn off two-factor authentication');
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to turn off two-factor authentication'));
+      throw error;
+    }
+  };
+
+  /**
+   * List the devices signed in to the account, including this one
+   */
+  const getSessions = async (): Promise<AuthSession[]> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.getSessions();
+      if (!response.success || !response.data) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to load signed-in devices');
+      }
+      return response.data.sessions;
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to load signed-in devices'));
+      throw error;
+    }
+  };
+
+  /**
+   * Sign out another device. Use `logout` for this one.
+   */
+  const revokeSession = async (sessionId: string): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.revokeSession(sessionId);
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to sign out the device');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to sign out the device'));
+      throw error;
+    }
+  };
+
+  /**
+   * Sign out every device except this one
+   */
+  const revokeOtherSessions = async (): Promise<void> => {
+    try {
+      setError(null);
+
+      const response = await authBackend.revokeOtherSessions();
+      if (!response.success) {
+        throw new AuthError('UNKNOWN', response.message || 'Failed to sign out other devices');
+      }
+    } catch (error) {
+      setError(AuthError.from(error, 'Failed to sign out other devices'));
+      throw error;
+    }
+  };
+
+  /**
+   * Prompt for biometrics, or the device passcode, to unlock a locked session
+   */
+  const unlock = async (): Promise<boolean> => {
+    const unlocked = await authenticateWithBiometrics('Unlock to continue');
+    if (unlocked) {
+      setIsLocked(false);
+    }
+    return unlocked;
+  };
+
+  /**
+   * Turn the biometric app lock on or off for the signed-in user.
+   * Turning it on requires a successful biometric prompt first.
+   */
+  const setAppLockEnabled = async (enabled: boolean): Promise<void> => {
+    try {
+      setError(null);
+
+      if (!user) {
+        throw new AuthError('UNAUTHORIZED');
+      }
+
+      if (enabled) {
+        if (!(await isAppLockAvailable())) {
+          throw new AuthError('UNKNOWN', 'Face ID, Touch ID or a fingerprint must be set up on this device');
+        }
+        if (!(await authenticateWithBiometrics('Confirm to turn on app lock'))) {
+          throw new AuthError('UNKNOWN', 'Biometric authentication was cancelled');
+        }
+        await tokenStore.setItem(getAppLockKey(user.uid), 'true');
       } else {
-        throw new Error(authResponse.message || 'Token refresh failed');
+        await tokenStore.deleteItem(getAppLockKey(user.uid));
       }
+
+      setIsAppLockEnabledState(enabled);
     } catch (error) {
-      // If refresh fails, clear auth data and redirect to login
-      await clearAuthData();
-      const errorMessage = error instanceof Error ? error.message : 'Token refresh failed';
-      setError(errorMessage);
+      setError(AuthError.from(error, 'Failed to update app lock'));
       throw error;
     }
   };
@@ -248,17 +1007,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Context value
   const value: AuthContextType = {
+    events: authBackend.events,
     // State
     user,
+    accounts,
+    isAddingAccount,
     isLoading,
     isAuthenticated: !!user,
     error,
+    isLocked,
+    isAppLockEnabled,
+    pendingProviderLink,
+    mfaChallenge,
+    isConnected,
+    isUnverifiedSession,
     // Actions
     login,
     register,
+    loginWithProvider,
+    linkProvider,
+    cancelProviderLink,
+    verifyMfa,
+    sendMfaSmsCode,
+    cancelMfa,
     logout,
+    switchAccount,
+    addAccount,
+    cancelAddAccount,
     resetPassword,
+    confirmPasswordReset,
     refreshToken,
+    refreshUser,
+    verifyEmail,
+    resendVerificationEmail,
+    updateProfile,
+    changePassword,
+    changeEmail,
+    deleteAccount,
+    startTotpEnrollment,
+    startSmsEnrollment,
+    confirmMfaEnrollment,
+    disableMfa,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions,
+    unlock,
+    setAppLockEnabled,
     clearError,
   };
 
@@ -289,8 +1083,10 @@ export function useAuthStatus(): {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  error: string | null;
+  error: AuthError | null;
+  mfaChallenge: MfaChallenge | null;
+  isAddingAccount: boolean;
 } {
-  const { user, isLoading, isAuthenticated, error } = useAuth();
-  return { user, isLoading, isAuthenticated, error };
+  const { user, isLoading, isAuthenticated, error, mfaChallenge, isAddingAccount } = useAuth();
+  return { user, isLoading, isAuthenticated, error, mfaChallenge, isAddingAccount };
 }
\ No newline at end of file
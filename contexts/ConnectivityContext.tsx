@@ -0,0 +1,49 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+
+import { connectivity, ConnectivityMonitor } from '@/services/connectivity';
+
+interface ConnectivityContextType {
+  // Whether the device is online, or null until the first network check finishes
+  isConnected: boolean | null;
+  // Known to be offline; false while the status is still unknown
+  isOffline: boolean;
+}
+
+const ConnectivityContext = createContext<ConnectivityContextType | undefined>(undefined);
+
+/**
+ * Provides the device's online status. Pass a `monitor` built on `MockConnectivitySource` to control it in tests.
+ */
+export function ConnectivityProvider({
+  monitor = connectivity,
+  children,
+}: {
+  monitor?: ConnectivityMonitor;
+  children: ReactNode;
+}) {
+  const [isConnected, setIsConnected] = useState<boolean | null>(() => monitor.isConnected);
+
+  useEffect(() => {
+    setIsConnected(monitor.isConnected);
+    return monitor.subscribe(setIsConnected);
+  }, [monitor]);
+
+  return (
+    <ConnectivityContext.Provider value={{ isConnected, isOffline: isConnected === false }}>
+      {children}
+    </ConnectivityContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use connectivity context
+ */
+export function useConnectivity(): ConnectivityContextType {
+  const context = useContext(ConnectivityContext);
+
+  if (context === undefined) {
+    throw new Error('useConnectivity must be used within a ConnectivityProvider');
+  }
+
+  return context;
+}
@@ -0,0 +1,187 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { ConnectivityProvider } from '@/contexts/ConnectivityContext';
+import {
+  DEFAULT_ADMIN_MOCK_USER,
+  DEFAULT_MFA_MOCK_USER,
+  DEFAULT_MOCK_USER,
+  MockAuthServer,
+} from '@/mocks/mockAuthServer';
+import { MockConnectivitySource } from '@/mocks/mockConnectivity';
+import { authBackend } from '@/services/authBackend';
+import { ConnectivityMonitor } from '@/services/connectivity';
+import { saveSession, setActiveAccountId } from '@/services/sessionStorage';
+
+jest.mock('@/services/tokenStore', () => {
+  const { MemoryTokenStore } = require('@/mocks/memoryTokenStore');
+  return { tokenStore: new MemoryTokenStore() };
+});
+
+jest.mock('@/services/deviceInfo', () => ({
+  getDeviceInfo: jest.fn(async () => ({ deviceId: 'test-device', deviceName: 'Test Phone', platform: 'ios' })),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => require('crypto').randomUUID(),
+}));
+
+jest.mock('@/services/authBackend', () => {
+  const { createMockAdapter } = require('@/mocks/mockAdapter');
+  const { MockAuthServer } = require('@/mocks/mockAuthServer');
+  const { AuthService } = require('@/services/authService');
+  const server = new MockAuthServer();
+  return {
+    server,
+    authBackendType: 'mock',
+    authBackend: new AuthService({ adapter: createMockAdapter(server), logRetries: false }),
+  };
+});
+
+const { server } = jest.requireMock('@/services/authBackend') as { server: MockAuthServer };
+
+let auth: ReturnType<typeof useAuth>;
+let tree: renderer.ReactTestRenderer | null = null;
+
+function AuthProbe() {
+  auth = useAuth();
+  return null;
+}
+
+const renderAuthProvider = async () => {
+  await act(async () => {
+    tree = renderer.create(
+      <ConnectivityProvider monitor={new ConnectivityMonitor(new MockConnectivitySource())}>
+        <AuthProvider>
+          <AuthProbe />
+        </AuthProvider>
+      </ConnectivityProvider>
+    );
+  });
+};
+
+// Hold `/auth/me` requests until the returned function is called
+const holdCurrentUserRequests = () => {
+  const handle = server.handle.bind(server);
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  jest.spyOn(server, 'handle').mockImplementation(async (request) => {
+    if (request.path === '/auth/me') {
+      await released;
+    }
+    return handle(request);
+  });
+  return release;
+};
+
+describe('AuthProvider', () => {
+  beforeEach(async () => {
+    // The mock backend logs the links it "emails"
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server.configure({ failures: {} });
+    const response = await authBackend.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    // A profile cached by an earlier launch
+    await saveSession({ ...response.data!, user: { ...response.data!.user, displayName: 'Cached Name' } });
+    await setActiveAccountId(response.data!.user.uid);
+  });
+
+  afterEach(() => {
+    // Stops the token refresh timer
+    act(() => tree?.unmount());
+    tree = null;
+    jest.restoreAllMocks();
+  });
+
+  it('shows the cached user while the session is still being verified', async () => {
+    const release = holdCurrentUserRequests();
+
+    await renderAuthProvider();
+
+    expect(auth.isLoading).toBe(false);
+    expect(auth.user).toMatchObject({ email: DEFAULT_MOCK_USER.email, displayName: 'Cached Name' });
+
+    await act(async () => {
+      release();
+    });
+
+    expect(auth.user).toMatchObject({ email: DEFAULT_MOCK_USER.email, displayName: DEFAULT_MOCK_USER.displayName });
+  });
+
+  it('signs out once the server rejects the restored session', async () => {
+    const release = holdCurrentUserRequests();
+    await renderAuthProvider();
+    expect(auth.isAuthenticated).toBe(true);
+
+    server.configure({ failures: { '/auth/me': 'unauthorized', '/auth/refresh': 'unauthorized' } });
+    await act(async () => {
+      release();
+    });
+
+    expect(auth.isAuthenticated).toBe(false);
+  });
+
+  it('tells the login screen when a sign-in still needs a second factor', async () => {
+    await renderAuthProvider();
+
+    let status: Awaited<ReturnType<typeof auth.login>> | undefined;
+    await act(async () => {
+      status = await auth.login({ email: DEFAULT_MFA_MOCK_USER.email, password: DEFAULT_MFA_MOCK_USER.password });
+    });
+
+    expect(status).toBe('mfa_required');
+    expect(auth.mfaChallenge).not.toBeNull();
+  });
+
+  it('lets listeners drop the previous account before showing the one switched to', async () => {
+    const adminResponse = await authBackend.login({
+      email: DEFAULT_ADMIN_MOCK_USER.email,
+      password: DEFAULT_ADMIN_MOCK_USER.password,
+    });
+    await saveSession(adminResponse.data!);
+    await renderAuthProvider();
+    const previousUid = auth.user!.uid;
+    const shownDuringListener: (string | undefined)[] = [];
+    const accountSwitched = jest.fn(() => {
+      shownDuringListener.push(auth.user?.uid);
+    });
+    auth.events.on('accountSwitched', accountSwitched);
+
+    await act(async () => {
+      await auth.switchAccount(adminResponse.data!.user.uid);
+    });
+
+    expect(accountSwitched).toHaveBeenCalledWith({
+      previousUid,
+      user: expect.objectContaining({ uid: adminResponse.data!.user.uid }),
+    });
+    expect(shownDuringListener).toEqual([previousUid]);
+    expect(auth.user?.uid).toBe(adminResponse.data!.user.uid);
+  });
+
+  it('signs in the next stored account after signing out', async () => {
+    const adminResponse = await authBackend.login({
+      email: DEFAULT_ADMIN_MOCK_USER.email,
+      password: DEFAULT_ADMIN_MOCK_USER.password,
+    });
+    await saveSession(adminResponse.data!);
+    await renderAuthProvider();
+    const calls: string[] = [];
+    auth.events.on('signedOut', ({ uid }) => {
+      calls.push(`signedOut ${uid}`);
+    });
+    auth.events.on('signedIn', ({ user }) => {
+      calls.push(`signedIn ${user.uid}`);
+    });
+    const previousUid = auth.user!.uid;
+
+    await act(async () => {
+      await auth.logout();
+    });
+
+    expect(calls).toEqual([`signedOut ${previousUid}`, `signedIn ${adminResponse.data!.user.uid}`]);
+    expect(auth.user?.uid).toBe(adminResponse.data!.user.uid);
+  });
+});
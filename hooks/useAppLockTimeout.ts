@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+
+/**
+ * Calls `onLock` when the app returns to the foreground after spending at least `timeout` ms
+ * in the background. Does nothing while `enabled` is false.
+ */
+export function useAppLockTimeout(enabled: boolean, timeout: number, onLock: () => void) {
+  const onLockRef = useRef(onLock);
+  onLockRef.current = onLock;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    // Only 'background' counts: system prompts, including the biometric one, make the app 'inactive'
+    let backgroundedAt: number | null = null;
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        backgroundedAt = Date.now();
+      } else if (state === 'active' && backgroundedAt !== null) {
+        if (Date.now() - backgroundedAt >= timeout) {
+          onLockRef.current();
+        }
+        backgroundedAt = null;
+      }
+    });
+
+    return () => subscription.remove();
+  }, [enabled, timeout]);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { AuthEventListener, AuthEventName } from '@/services/authEvents';
+
+/**
+ * Calls `listener` with every `event` from the auth provider while the component is mounted.
+ * Return a promise to hold up the action that emitted it, e.g. to clear a cache before signing out finishes.
+ */
+export function useAuthEvent<E extends AuthEventName>(event: E, listener: AuthEventListener<E>) {
+  const { events } = useAuth();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    return events.on(event, (payload) => listenerRef.current(payload));
+  }, [events, event]);
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import { FieldErrors, FieldValues, FormState } from 'react-hook-form';
+
+import { analytics, AnalyticsProperties } from '@/services/analytics';
+import { AuthError } from '@/services/authErrors';
+
+// Auth forms whose funnel is tracked
+export type AuthFunnelForm = 'login' | 'register' | 'forgot_password';
+
+export interface AuthFunnel {
+  // The form was sent to the server
+  submitted: (properties?: AnalyticsProperties) => void;
+  // The credentials were accepted but a second factor is needed; the MFA screen tracks the success
+  mfaRequired: (properties?: AnalyticsProperties) => void;
+  // The user is signed in, or the request was accepted
+  succeeded: (properties?: AnalyticsProperties) => void;
+  // The server rejected the form or couldn't be reached; only the error code is recorded
+  failed: (error: unknown, properties?: AnalyticsProperties) => void;
+}
+
+// Fields that fail client-side validation after the user has left them; server errors are tracked as failures
+const getInvalidFields = <T extends FieldValues>(errors: FieldErrors<T>, touchedFields: Partial<Record<string, unknown>>) =>
+  Object.keys(errors)
+    .filter((field) => touchedFields[field] && errors[field]?.type !== 'server')
+    .sort();
+
+/**
+ * Tracks the steps of an auth form from its submission on, e.g. to finish the login funnel on the MFA screen
+ */
+export function createAuthFunnel(form: AuthFunnelForm): AuthFunnel {
+  return {
+    submitted: (properties) => analytics.track('auth_form_submitted', { ...properties, form }),
+    mfaRequired: (properties) => analytics.track('auth_form_mfa_required', { ...properties, form }),
+    succeeded: (properties) => analytics.track('auth_form_succeeded', { ...properties, form }),
+    failed: (error, properties) =>
+      analytics.track('auth_form_failed', { ...properties, form, errorCode: AuthError.from(error).code }),
+  };
+}
+
+/**
+ * Tracks the steps of an auth form: started (first edit), validation failed, submitted, MFA required, succeeded and failed.
+ * Only field names and error codes are recorded, never what the user typed.
+ */
+export function useAuthFunnel<T extends FieldValues>(
+  form: AuthFunnelForm,
+  formState: Pick<FormState<T>, 'isDirty' | 'errors' | 'touchedFields'>
+): AuthFunnel {
+  const hasStarted = useRef(false);
+  const invalidFields = getInvalidFields(formState.errors, formState.touchedFields).join(',');
+
+  useEffect(() => {
+    if (formState.isDirty && !hasStarted.current) {
+      hasStarted.current = true;
+      analytics.track('auth_form_started', { form });
+    }
+  }, [formState.isDirty, form]);
+
+  // Tracked when a different set of fields is invalid, not on every keystroke
+  useEffect(() => {
+    if (invalidFields) {
+      analytics.track('auth_form_validation_failed', { form, fields: invalidFields.split(',') });
+    }
+  }, [invalidFields, form]);
+
+  return createAuthFunnel(form);
+}
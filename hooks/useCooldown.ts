@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Countdown in whole seconds, e.g. to hold off retries after rate limiting
+ * or between verification email resends
+ */
+export function useCooldown() {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [remaining, setRemaining] = useState(0);
+
+  useEffect(() => {
+    if (endsAt === null) {
+      return;
+    }
+
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setRemaining(seconds);
+      if (seconds === 0) {
+        setEndsAt(null);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const start = useCallback((seconds: number) => {
+    setEndsAt(Date.now() + seconds * 1000);
+  }, []);
+
+  return { remaining, isActive: remaining > 0, start };
+}
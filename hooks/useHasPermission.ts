@@ -0,0 +1,26 @@
+import { useAuthStatus } from '@/contexts/AuthContext';
+import { AccessRequirement, canAccess, hasPermission, hasRole } from '@/utils/permissions';
+
+/**
+ * Whether the signed-in user holds every one of the given permissions
+ */
+export function useHasPermission(permission: string | string[]): boolean {
+  const { user } = useAuthStatus();
+  return hasPermission(user, permission);
+}
+
+/**
+ * Whether the signed-in user holds any of the given roles
+ */
+export function useHasRole(role: string | string[]): boolean {
+  const { user } = useAuthStatus();
+  return hasRole(user, role);
+}
+
+/**
+ * Whether the signed-in user meets a screen's role and permission requirement
+ */
+export function useCanAccess(requirement: AccessRequirement): boolean {
+  const { user } = useAuthStatus();
+  return canAccess(user, requirement);
+}
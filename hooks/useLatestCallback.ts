@@ -0,0 +1,14 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Returns a function that keeps its identity across renders but always calls the latest `callback`,
+ * so effects can call functions from props or context without re-running after every render
+ */
+export function useLatestCallback<Args extends unknown[], Result>(
+  callback: (...args: Args) => Result
+): (...args: Args) => Result {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  return useCallback((...args: Args) => callbackRef.current(...args), []);
+}
@@ -0,0 +1,17 @@
+import { useSegments } from 'expo-router';
+import { useEffect } from 'react';
+
+import { analytics } from '@/services/analytics';
+
+/**
+ * Records a screen view whenever the route changes. Screens are named after their route, e.g. "(auth)/login",
+ * rather than the URL, so link parameters such as reset tokens and email addresses never leave the device.
+ */
+export function useScreenTracking() {
+  const segments = useSegments() as string[];
+  const screen = segments.join('/') || 'index';
+
+  useEffect(() => {
+    analytics.screen(screen);
+  }, [screen]);
+}
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+
+import { sessionSync } from '@/services/sessionSync';
+
+/**
+ * Calls `onChange` when the stored sessions may have been changed outside this instance of the app:
+ * by another tab on web, or while the app was in the background on iOS and Android
+ */
+export function useSessionSync(onChange: () => Promise<void>) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    return sessionSync.subscribe(() => {
+      onChangeRef.current().catch((error) => {
+        console.warn('Failed to sync the stored session:', error);
+      });
+    });
+  }, []);
+}
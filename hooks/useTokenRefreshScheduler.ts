@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+
+// Refresh this long before the access token expires
+export const TOKEN_REFRESH_LEAD_TIME_MS = 60 * 1000;
+
+// setTimeout overflows for delays above 2^31 - 1 ms, so long-lived tokens are re-checked periodically
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedules a token refresh shortly before `expiresAt`.
+ * The timer is paused while the app is in the background and re-evaluated when it returns
+ * to the foreground, refreshing immediately if the token expired in the meantime.
+ */
+export function useTokenRefreshScheduler(
+  expiresAt: number | null,
+  onRefresh: () => Promise<void>,
+  leadTime: number = TOKEN_REFRESH_LEAD_TIME_MS
+) {
+  const onRefreshRef = useRef(onRefresh);
+  onRefreshRef.current = onRefresh;
+
+  useEffect(() => {
+    if (expiresAt === null) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearTimer = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    };
+
+    const refresh = () => {
+      onRefreshRef.current().catch((error) => {
+        // Session expiry is handled by the auth backend's session handlers
+        console.warn('Scheduled token refresh failed:', error);
+      });
+    };
+
+    const schedule = () => {
+      clearTimer();
+      const delay = expiresAt - leadTime - Date.now();
+
+      if (delay <= 0) {
+        refresh();
+      } else {
+        timer = setTimeout(
+          delay > MAX_TIMER_DELAY_MS ? schedule : refresh,
+          Math.min(delay, MAX_TIMER_DELAY_MS)
+        );
+      }
+    };
+
+    if (AppState.currentState !== 'background') {
+      schedule();
+    }
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        schedule();
+      } else {
+        clearTimer();
+      }
+    });
+
+    return () => {
+      clearTimer();
+      subscription.remove();
+    };
+  }, [expiresAt, leadTime]);
+}
@@ -0,0 +1,2 @@
+// NetInfo's native module doesn't exist under Jest; tests control connectivity with `MockConnectivitySource`
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
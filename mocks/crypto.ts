@@ -0,0 +1,267 @@
+/**
+ * Small, dependency-free crypto helpers for the mock auth backend.
+ * These are NOT meant for production use; they only let the mock issue tokens
+ * that look and behave like real signed JWTs in Jest and in the Expo runtime.
+ */
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+// Encode a string as UTF-8 bytes
+export function utf8Encode(value: string): number[] {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+// Pad a message and split it into big-endian 32-bit words
+function toPaddedWords(bytes: number[]): number[] {
+  const padded = [...bytes, 0x80];
+  while (padded.length % 64 !== 56) {
+    padded.push(0);
+  }
+  const bitLength = bytes.length * 8;
+  padded.push(0, 0, 0, 0, (bitLength >>> 24) & 0xff, (bitLength >>> 16) & 0xff, (bitLength >>> 8) & 0xff, bitLength & 0xff);
+
+  const words: number[] = [];
+  for (let i = 0; i < padded.length; i += 4) {
+    words.push((padded[i] << 24) | (padded[i + 1] << 16) | (padded[i + 2] << 8) | padded[i + 3]);
+  }
+  return words;
+}
+
+// Flatten 32-bit words into bytes
+function wordsToBytes(words: number[]): number[] {
+  return words.flatMap((word) => [(word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff]);
+}
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+/**
+ * SHA-256 digest of a byte array
+ */
+export function sha256(bytes: number[]): number[] {
+  const words = toPaddedWords(bytes);
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+  for (let offset = 0; offset < words.length; offset += 16) {
+    const w = words.slice(offset, offset + 16);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+
+  return wordsToBytes(hash);
+}
+
+const rotl = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+
+/**
+ * SHA-1 digest of a byte array, needed for TOTP codes
+ */
+export function sha1(bytes: number[]): number[] {
+  const words = toPaddedWords(bytes);
+  const hash = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+
+  for (let offset = 0; offset < words.length; offset += 16) {
+    const w = words.slice(offset, offset + 16);
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+
+    let [a, b, c, d, e] = hash;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const t = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = t;
+    }
+
+    [a, b, c, d, e].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+
+  return wordsToBytes(hash);
+}
+
+/**
+ * HMAC using the given hash function (64-byte block size)
+ */
+export function hmac(hash: (bytes: number[]) => number[], key: number[], message: number[]): number[] {
+  let blockKey = key.length > 64 ? hash(key) : key;
+  blockKey = [...blockKey, ...new Array(64 - blockKey.length).fill(0)];
+
+  const inner = hash([...blockKey.map((byte) => byte ^ 0x36), ...message]);
+  return hash([...blockKey.map((byte) => byte ^ 0x5c), ...inner]);
+}
+
+/**
+ * Base64url-encode bytes without padding
+ */
+export function base64UrlEncode(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Sign a JWT with HS256
+ */
+export function signJwt(payload: object, secret: string): string {
+  const header = base64UrlEncode(utf8Encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(utf8Encode(JSON.stringify(payload)));
+  const signature = base64UrlEncode(hmac(sha256, utf8Encode(secret), utf8Encode(`${header}.${body}`)));
+  return `${header}.${body}.${signature}`;
+}
+
+/**
+ * Check the HS256 signature of a JWT
+ */
+export function verifyJwtSignature(token: string, secret: string): boolean {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) {
+    return false;
+  }
+  return base64UrlEncode(hmac(sha256, utf8Encode(secret), utf8Encode(`${header}.${body}`))) === signature;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Base32-encode bytes without padding, as used for TOTP secrets
+ */
+export function base32Encode(bytes: number[]): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decode a base32 string, ignoring padding, spaces and case
+ */
+export function base32Decode(value: string): number[] {
+  let bits = 0;
+  let buffer = 0;
+  const bytes: number[] = [];
+
+  for (const char of value.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * RFC 6238 time-based one-time password (HMAC-SHA1, 6 digits, 30 second steps)
+ */
+export function totp(secret: string, timestamp = Date.now(), stepSeconds = 30): string {
+  const counter = Math.floor(timestamp / 1000 / stepSeconds);
+  // 8-byte big-endian counter; the high word is always 0 for current timestamps
+  const message = [0, 0, 0, 0, (counter >>> 24) & 0xff, (counter >>> 16) & 0xff, (counter >>> 8) & 0xff, counter & 0xff];
+  const digest = hmac(sha1, base32Decode(secret), message);
+
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) | (digest[offset + 1] << 16) | (digest[offset + 2] << 8) | digest[offset + 3];
+  return String(binary % 1_000_000).padStart(6, '0');
+}
+
+/**
+ * Random bytes for secrets issued by the mock backend
+ */
+export function randomBytes(length: number): number[] {
+  return Array.from({ length }, () => Math.floor(Math.random() * 256));
+}
+
+/**
+ * Random identifier for tokens and ids issued by the mock backend
+ */
+export function randomId(length = 32): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
+}
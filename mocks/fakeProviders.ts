@@ -0,0 +1,63 @@
+import { ProviderLoginRequest, SocialProvider } from '@/services/authTypes';
+
+// Issuer of each provider's ID tokens
+const PROVIDER_ISSUERS: Record<SocialProvider, string> = {
+  google: 'https://accounts.google.com',
+  apple: 'https://appleid.apple.com',
+};
+
+export interface FakeProviderIdentity {
+  email: string;
+  // Provider's user ID, derived from the email when omitted
+  sub?: string;
+  name?: string;
+  emailVerified?: boolean;
+}
+
+export interface FakeIdTokenClaims {
+  iss: string;
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name?: string;
+}
+
+/**
+ * Unsigned ID token in the JSON format the Firebase Auth emulator accepts in place of a real
+ * provider token. The mock backend accepts the same format, so social sign-in works offline.
+ */
+export function createFakeIdToken(provider: SocialProvider, identity: FakeProviderIdentity): string {
+  const claims: FakeIdTokenClaims = {
+    iss: PROVIDER_ISSUERS[provider],
+    sub: identity.sub ?? `${provider}-${identity.email.toLowerCase()}`,
+    email: identity.email,
+    email_verified: identity.emailVerified ?? true,
+    name: identity.name,
+  };
+  return JSON.stringify(claims);
+}
+
+/**
+ * Provider credential carrying a fake ID token, as if the provider's sign-in flow had completed
+ */
+export function createFakeProviderCredential(
+  provider: SocialProvider,
+  identity: FakeProviderIdentity
+): ProviderLoginRequest {
+  return { provider, idToken: createFakeIdToken(provider, identity), displayName: identity.name };
+}
+
+/**
+ * Read the claims of a fake ID token, or null if it isn't a valid token from `provider`
+ */
+export function parseFakeIdToken(provider: SocialProvider, idToken: string): FakeIdTokenClaims | null {
+  try {
+    const claims = JSON.parse(idToken);
+    if (claims?.iss !== PROVIDER_ISSUERS[provider] || typeof claims.sub !== 'string' || typeof claims.email !== 'string') {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
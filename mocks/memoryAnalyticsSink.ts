@@ -0,0 +1,23 @@
+import { AnalyticsEvent, AnalyticsSink } from '@/services/analytics';
+
+/**
+ * Analytics sink that keeps events in memory, for tests
+ */
+export class MemoryAnalyticsSink implements AnalyticsSink {
+  readonly events: AnalyticsEvent[] = [];
+
+  send(event: AnalyticsEvent): void {
+    this.events.push(event);
+  }
+
+  /**
+   * Names of the events received so far, in order
+   */
+  get names(): string[] {
+    return this.events.map((event) => event.name);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
@@ -0,0 +1,44 @@
+import { SessionRecord, TokenStore } from '@/services/tokenStoreTypes';
+
+/**
+ * Token store that only keeps data in memory, for tests
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly usesRefreshTokenCookie = false;
+  // Kept serialized, like the real stores, so callers can't change a stored session by mutating it
+  private sessions = new Map<string, string>();
+  private items = new Map<string, string>();
+
+  async getSession(uid: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(uid);
+    return session ? JSON.parse(session) : null;
+  }
+
+  async setSession(uid: string, session: SessionRecord): Promise<void> {
+    this.sessions.set(uid, JSON.stringify(session));
+  }
+
+  async deleteSession(uid: string): Promise<void> {
+    this.sessions.delete(uid);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async deleteItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  /**
+   * Forget everything, e.g. between tests
+   */
+  clear(): void {
+    this.sessions.clear();
+    this.items.clear();
+  }
+}
@@ -0,0 +1,55 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { MockAuthServer } from '@/mocks/mockAuthServer';
+
+// Parse the JSON body axios has already serialized
+function parseBody(data: unknown): any {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Axios adapter that serves requests from a `MockAuthServer` instead of the network
+ */
+export function createMockAdapter(server: MockAuthServer): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const path = (config.url ?? '').split('?')[0];
+    const result = await server.handle({
+      method: config.method ?? 'get',
+      path,
+      headers: config.headers.toJSON() as Record<string, string>,
+      body: parseBody(config.data),
+    });
+
+    if (result.timedOut) {
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+    }
+
+    const response: AxiosResponse = {
+      data: result.data,
+      status: result.status,
+      statusText: String(result.status),
+      headers: result.headers ?? {},
+      config,
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response
+      );
+    }
+
+    return response;
+  };
+}
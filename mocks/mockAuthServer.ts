@@ -0,0 +1,941 @@
+import { PERMISSIONS, ROLES } from '@/constants/Permissions';
+import { base32Encode, randomBytes, randomId, signJwt, totp, verifyJwtSignature } from '@/mocks/crypto';
+import { parseFakeIdToken } from '@/mocks/fakeProviders';
+import { AuthErrorCode } from '@/services/authErrors';
+import { DeviceInfo, MfaMethod, ProviderLoginRequest, SocialProvider, VerifyMfaRequest } from '@/services/authTypes';
+import { decodeJwt } from '@/utils/jwt';
+
+// Failure modes the mock can simulate for a request
+export type MockFailure = 'unauthorized' | 'rate-limited' | 'server-error' | 'timeout';
+
+export interface MockAuthServerOptions {
+  // Delay applied to every response
+  latencyMs?: number;
+  // Lifetime of issued access tokens
+  accessTokenTtlSeconds?: number;
+  // Failures keyed by endpoint path (e.g. '/auth/me'), or '*' for every endpoint
+  failures?: Record<string, MockFailure>;
+  // Lifetime of email verification and password reset links
+  emailLinkTtlSeconds?: number;
+  // Reject sign-in with EMAIL_NOT_VERIFIED until the user verifies their email
+  requireVerifiedEmail?: boolean;
+  // Lifetime of the second sign-in step for users with MFA
+  mfaChallengeTtlSeconds?: number;
+  // Users available before anyone registers
+  seedUsers?: MockSeedUser[];
+}
+
+export interface MockSeedUser {
+  email: string;
+  password: string;
+  displayName?: string;
+  emailVerified?: boolean;
+  // Base32 secret of an enrolled authenticator app
+  totpSecret?: string;
+  // Enrolled phone number for SMS codes
+  phoneNumber?: string;
+  roles?: string[];
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  headers?: Record<string, string | undefined>;
+  body?: any;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: any;
+  headers?: Record<string, string>;
+  // Set when the request should fail as if it timed out
+  timedOut?: boolean;
+}
+
+// Second sign-in step waiting for an MFA code
+interface MfaChallengeEntry {
+  uid: string;
+  expiresAt: number;
+  attempts: number;
+  // Code texted for this challenge, if one was requested
+  smsCode?: string;
+  // Device signing in, for the session created once the code is verified
+  device?: Partial<DeviceInfo>;
+}
+
+// Signed-in device, started at sign-in and kept across token refreshes
+interface MockSession {
+  id: string;
+  uid: string;
+  deviceId?: string;
+  deviceName: string;
+  platform: string;
+  ipAddress: string;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+// Single-use token sent by email (verification and password reset links)
+interface EmailLinkToken {
+  uid: string;
+  expiresAt: number;
+}
+
+interface MockUser {
+  uid: string;
+  email: string;
+  // Unset for accounts created through social sign-in
+  password?: string;
+  displayName?: string;
+  emailVerified: boolean;
+  roles: string[];
+  // Provider user IDs of the linked social accounts
+  providers: Partial<Record<SocialProvider, string>>;
+  mfa: {
+    totpSecret?: string;
+    phoneNumber?: string;
+    backupCodes: string[];
+    // Second factor being set up, until it is confirmed with a code
+    pendingTotpSecret?: string;
+    pendingPhone?: { phoneNumber: string; code: string };
+  };
+}
+
+export const DEFAULT_MOCK_USER = {
+  email: 'demo@example.com',
+  password: 'Password123',
+  displayName: 'Demo User',
+  emailVerified: true,
+};
+
+// Demo account with an authenticator app and a phone enrolled; its codes are logged on sign-in
+export const DEFAULT_MFA_MOCK_USER = {
+  email: 'mfa@example.com',
+  password: 'Password123',
+  displayName: 'MFA Demo User',
+  emailVerified: true,
+  totpSecret: 'JBSWY3DPEHPK3PXP',
+  phoneNumber: '+15555550100',
+};
+
+// Demo account that can open the admin area
+export const DEFAULT_ADMIN_MOCK_USER = {
+  email: 'admin@example.com',
+  password: 'Password123',
+  displayName: 'Admin Demo User',
+  emailVerified: true,
+  roles: [ROLES.ADMIN],
+};
+
+const DEFAULT_SEED_USERS: MockSeedUser[] = [DEFAULT_MOCK_USER, DEFAULT_MFA_MOCK_USER, DEFAULT_ADMIN_MOCK_USER];
+
+// Permissions granted by each role
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  [ROLES.ADMIN]: [PERMISSIONS.VIEW_ADMIN, PERMISSIONS.VIEW_PREMIUM],
+  [ROLES.PREMIUM]: [PERMISSIONS.VIEW_PREMIUM],
+};
+
+const TOKEN_SECRET = 'mock-auth-server-secret';
+const TOTP_ISSUER = 'Mock Auth';
+// Wrong codes allowed before the sign-in attempt has to start over
+const MAX_MFA_ATTEMPTS = 5;
+const BACKUP_CODE_COUNT = 10;
+
+/**
+ * In-memory implementation of the `/auth/*` REST endpoints.
+ * Used by Jest tests and by the app when `AUTH_BACKEND=mock`, so nobody needs a real server to sign in.
+ */
+export class MockAuthServer {
+  private options: MockAuthServerOptions;
+  private users = new Map<string, MockUser>();
+  private sessions = new Map<string, MockSession>();
+  // Session id of each refresh token
+  private refreshTokens = new Map<string, string>();
+  private verificationTokens = new Map<string, EmailLinkToken>();
+  private resetTokens = new Map<string, EmailLinkToken>();
+  private mfaChallenges = new Map<string, MfaChallengeEntry>();
+  // Most recent code texted to each phone number
+  private smsCodes = new Map<string, string>();
+  // First response to each request sent with an Idempotency-Key, returned again for repeats
+  private idempotentResponses = new Map<string, MockResponse>();
+  // Access tokens issued before this time (in seconds) are rejected
+  private tokensValidAfter = 0;
+
+  constructor(options: MockAuthServerOptions = {}) {
+    this.options = options;
+    this.reset();
+  }
+
+  /**
+   * Change simulation switches such as latency and failures
+   */
+  configure(options: Partial<MockAuthServerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Drop all users and tokens, restoring the seed users
+   */
+  reset(): void {
+    this.users.clear();
+    this.sessions.clear();
+    this.refreshTokens.clear();
+    this.verificationTokens.clear();
+    this.resetTokens.clear();
+    this.mfaChallenges.clear();
+    this.smsCodes.clear();
+    this.idempotentResponses.clear();
+    this.tokensValidAfter = 0;
+
+    for (const seedUser of this.options.seedUsers ?? DEFAULT_SEED_USERS) {
+      const user = this.createUser(seedUser.email, seedUser.password, seedUser.displayName, seedUser.emailVerified ?? true);
+      user.mfa.totpSecret = seedUser.totpSecret;
+      user.mfa.phoneNumber = seedUser.phoneNumber;
+      user.roles = seedUser.roles ?? [];
+    }
+  }
+
+  /**
+   * Invalidate every access token issued so far, forcing clients to refresh
+   */
+  expireAccessTokens(): void {
+    this.tokensValidAfter = Math.floor(Date.now() / 1000) + 1;
+  }
+
+  /**
+   * Token that would have been emailed to verify the given address
+   */
+  getVerificationToken(email: string): string | undefined {
+    return this.findTokenFor(this.verificationTokens, email);
+  }
+
+  /**
+   * Token that would have been emailed to reset the given account's password
+   */
+  getPasswordResetToken(email: string): string | undefined {
+    return this.findTokenFor(this.resetTokens, email);
+  }
+
+  /**
+   * Code most recently texted to the given phone number
+   */
+  getSmsCode(phoneNumber: string): string | undefined {
+    return this.smsCodes.get(phoneNumber);
+  }
+
+  /**
+   * Grant roles to a user, as an admin would. Tokens issued from now on carry them.
+   */
+  setRoles(email: string, roles: string[]): void {
+    const user = this.users.get(email.toLowerCase());
+    if (user) {
+      user.roles = [...roles];
+    }
+  }
+
+  /**
+   * Handle a request to one of the mock endpoints
+   */
+  async handle(request: MockRequest): Promise<MockResponse> {
+    if (this.options.latencyMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.latencyMs));
+    }
+
+    const failure = this.options.failures?.[request.path] ?? this.options.failures?.['*'];
+    if (failure === 'timeout') {
+      return { status: 0, timedOut: true };
+    } else if (failure === 'unauthorized') {
+      return this.error(401, 'Unauthorized', 'UNAUTHORIZED');
+    } else if (failure === 'rate-limited') {
+      return { ...this.error(429, 'Too many requests', 'RATE_LIMITED'), headers: { 'retry-after': '30' } };
+    } else if (failure === 'server-error') {
+      return this.error(500, 'Internal server error', 'SERVER');
+    }
+
+    const idempotencyKey = request.headers?.['Idempotency-Key'] ?? request.headers?.['idempotency-key'];
+    if (!idempotencyKey) {
+      return this.route(request);
+    }
+
+    const cachedResponse = this.idempotentResponses.get(idempotencyKey);
+    if (cachedResponse) {
+      return cachedResponse;
+    }
+    const response = await this.route(request);
+    this.idempotentResponses.set(idempotencyKey, response);
+    return response;
+  }
+
+  // Dispatch a request to its endpoint handler
+  private async route(request: MockRequest): Promise<MockResponse> {
+    const route = `${request.method.toUpperCase()} ${request.path}`;
+    const body = request.body ?? {};
+    const ipAddress = request.headers?.['x-forwarded-for'] ?? '127.0.0.1';
+
+    const sessionRoute = route.match(/^DELETE \/auth\/sessions\/([^/]+)$/);
+    if (sessionRoute) {
+      return this.withUser(request, (user) => this.revokeSession(user, decodeURIComponent(sessionRoute[1])));
+    }
+
+    switch (route) {
+      case 'POST /auth/login':
+        return this.login(body, ipAddress);
+      case 'POST /auth/register':
+        return this.register(body, ipAddress);
+      case 'POST /auth/login/provider':
+        return this.loginWithProvider(body, ipAddress);
+      case 'POST /auth/login/provider/link':
+        return this.linkProvider(body, ipAddress);
+      case 'POST /auth/mfa/verify':
+        return this.verifyMfa(body, ipAddress);
+      case 'POST /auth/mfa/sms/send':
+        return this.sendMfaSmsCode(body);
+      case 'POST /auth/reset-password':
+        return this.resetPassword(body);
+      case 'POST /auth/reset-password/confirm':
+        return this.confirmPasswordReset(body);
+      case 'POST /auth/refresh':
+        return this.refresh(body);
+      case 'POST /auth/logout':
+        return this.withUser(request, (user, session) => this.logout(session));
+      case 'POST /auth/verify-email':
+        return this.verifyEmail(body);
+      case 'POST /auth/resend-verification':
+        return body.email ? this.resendVerification(body.email) : this.withUser(request, (user) => this.resendVerification(user.email));
+      case 'GET /auth/me':
+        return this.withUser(request, (user) => this.ok({ user: this.toPublicUser(user) }));
+      case 'PATCH /auth/me':
+        return this.withUser(request, (user) => this.updateProfile(user, body));
+      case 'DELETE /auth/me':
+        return this.withUser(request, (user) => this.deleteAccount(user, body));
+      case 'POST /auth/change-password':
+        return this.withUser(request, (user) => this.changePassword(user, body));
+      case 'POST /auth/change-email':
+        return this.withUser(request, (user) => this.changeEmail(user, body));
+      case 'POST /auth/mfa/totp/enroll':
+        return this.withUser(request, (user) => this.startTotpEnrollment(user));
+      case 'POST /auth/mfa/totp/confirm':
+        return this.withUser(request, (user) => this.confirmTotpEnrollment(user, body));
+      case 'POST /auth/mfa/sms/enroll':
+        return this.withUser(request, (user) => this.startSmsEnrollment(user, body));
+      case 'POST /auth/mfa/sms/confirm':
+        return this.withUser(request, (user) => this.confirmSmsEnrollment(user, body));
+      case 'POST /auth/mfa/disable':
+        return this.withUser(request, (user) => this.disableMfa(user, body));
+      case 'GET /auth/sessions':
+        return this.withUser(request, (user, session) => this.listSessions(user, session));
+      case 'DELETE /auth/sessions':
+        return this.withUser(request, (user, session) => this.revokeOtherSessions(user, session));
+      default:
+        return this.error(404, `No mock handler for ${route}`);
+    }
+  }
+
+  private login(
+    { email, password, device }: { email?: string; password?: string; device?: Partial<DeviceInfo> },
+    ipAddress: string
+  ): MockResponse {
+    const user = email ? this.users.get(email.toLowerCase()) : undefined;
+    if (!user || !this.checkPassword(user, password)) {
+      return this.error(401, 'Invalid email or password', 'INVALID_CREDENTIALS');
+    } else if (this.options.requireVerifiedEmail && !user.emailVerified) {
+      return this.error(403, 'Please verify your email address before signing in', 'EMAIL_NOT_VERIFIED');
+    }
+    return this.signIn(user, { ...device, ipAddress });
+  }
+
+  private register(
+    {
+      email,
+      password,
+      displayName,
+      device,
+    }: { email?: string; password?: string; displayName?: string; device?: Partial<DeviceInfo> },
+    ipAddress: string
+  ): MockResponse {
+    if (!email || !password) {
+      return this.error(400, 'Email and password are required', 'VALIDATION', {
+        ...(email ? {} : { email: 'Email is required' }),
+        ...(password ? {} : { password: 'Password is required' }),
+      });
+    } else if (this.users.has(email.toLowerCase())) {
+      return this.error(409, 'An account with this email already exists', 'EMAIL_IN_USE', {
+        email: 'An account with this email already exists',
+      });
+    }
+
+    const user = this.createUser(email, password, displayName, false);
+    this.sendVerificationEmail(user);
+
+    return this.ok(this.issueSession(user, { ...device, ipAddress }), 201);
+  }
+
+  private loginWithProvider(
+    { device, ...credential }: Partial<ProviderLoginRequest> & { device?: Partial<DeviceInfo> },
+    ipAddress: string
+  ): MockResponse {
+    const claims = this.verifyProviderCredential(credential);
+    if (!claims) {
+      return this.error(401, 'Invalid provider credential', 'INVALID_CREDENTIALS');
+    }
+
+    const provider = credential.provider!;
+    const linkedUser = Array.from(this.users.values()).find((user) => user.providers[provider] === claims.sub);
+    if (linkedUser) {
+      return this.signIn(linkedUser, { ...device, ipAddress });
+    }
+
+    // Never sign in to an existing account just because a provider vouches for its email
+    if (this.users.has(claims.email.toLowerCase())) {
+      return {
+        status: 409,
+        data: {
+          success: false,
+          message: 'An account with this email already exists. Sign in with your password to link it.',
+          code: 'ACCOUNT_EXISTS',
+          email: claims.email.toLowerCase(),
+        },
+      };
+    }
+
+    const user = this.createUser(claims.email, undefined, credential.displayName ?? claims.name, claims.email_verified);
+    user.providers[provider] = claims.sub;
+    return this.ok(this.issueSession(user, { ...device, ipAddress }), 201);
+  }
+
+  private linkProvider(
+    {
+      email,
+      password,
+      credential,
+      device,
+    }: {
+      email?: string;
+      password?: string;
+      credential?: Partial<ProviderLoginRequest>;
+      device?: Partial<DeviceInfo>;
+    },
+    ipAddress: string
+  ): MockResponse {
+    const user = email ? this.users.get(email.toLowerCase()) : undefined;
+    if (!user || !this.checkPassword(user, password)) {
+      return this.error(401, 'Invalid email or password', 'INVALID_CREDENTIALS', { password: 'Incorrect password' });
+    }
+
+    const claims = credential ? this.verifyProviderCredential(credential) : null;
+    if (!claims || claims.email.toLowerCase() !== user.email) {
+      return this.error(401, 'Invalid provider credential', 'INVALID_CREDENTIALS');
+    }
+
+    user.providers[credential!.provider!] = claims.sub;
+    // The provider has confirmed the address
+    user.emailVerified = user.emailVerified || claims.email_verified;
+    return this.signIn(user, { ...device, ipAddress });
+  }
+
+  // Stand-in for verifying a provider's ID token signature: accepts the fake tokens from `mocks/fakeProviders`
+  private verifyProviderCredential({ provider, idToken }: Partial<ProviderLoginRequest>) {
+    if ((provider !== 'google' && provider !== 'apple') || !idToken) {
+      return null;
+    }
+    return parseFakeIdToken(provider, idToken);
+  }
+
+  private verifyMfa({ challengeId, code, method }: Partial<VerifyMfaRequest>, ipAddress: string): MockResponse {
+    const challenge = challengeId ? this.mfaChallenges.get(challengeId) : undefined;
+    const user = challenge ? this.findUser(challenge.uid) : undefined;
+    if (!challengeId || !challenge || !user || challenge.expiresAt <= Date.now()) {
+      if (challengeId) {
+        this.mfaChallenges.delete(challengeId);
+      }
+      return this.error(400, 'This sign-in attempt has expired. Please sign in again.', 'EXPIRED_TOKEN');
+    }
+
+    if (!this.checkMfaCode(user, method, code, challenge.smsCode)) {
+      challenge.attempts += 1;
+      if (challenge.attempts >= MAX_MFA_ATTEMPTS) {
+        this.mfaChallenges.delete(challengeId);
+        return this.error(400, 'Too many incorrect codes. Please sign in again.', 'EXPIRED_TOKEN');
+      }
+      return this.error(401, 'Incorrect code', 'INVALID_CREDENTIALS', { code: 'Incorrect code' });
+    }
+
+    this.mfaChallenges.delete(challengeId);
+    return this.ok(this.issueSession(user, { ...challenge.device, ipAddress }));
+  }
+
+  private sendMfaSmsCode({ challengeId }: { challengeId?: string }): MockResponse {
+    const challenge = challengeId ? this.mfaChallenges.get(challengeId) : undefined;
+    const user = challenge ? this.findUser(challenge.uid) : undefined;
+    if (!challenge || !user || challenge.expiresAt <= Date.now()) {
+      return this.error(400, 'This sign-in attempt has expired. Please sign in again.', 'EXPIRED_TOKEN');
+    } else if (!user.mfa.phoneNumber) {
+      return this.error(400, 'No phone number is enrolled for this account', 'VALIDATION');
+    }
+
+    challenge.smsCode = this.sendSmsCode(user.mfa.phoneNumber);
+    return this.ok(undefined, 200, 'Code sent');
+  }
+
+  private startTotpEnrollment(user: MockUser): MockResponse {
+    const secret = base32Encode(randomBytes(20));
+    user.mfa.pendingTotpSecret = secret;
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}`;
+    return this.ok({ secret, otpauthUrl });
+  }
+
+  private confirmTotpEnrollment(user: MockUser, { code }: { code?: string }): MockResponse {
+    const secret = user.mfa.pendingTotpSecret;
+    if (!secret) {
+      return this.error(400, 'Start setting up the authenticator app again.', 'EXPIRED_TOKEN');
+    } else if (!code || !this.matchesTotp(secret, code)) {
+      return this.wrongCode();
+    }
+
+    user.mfa.totpSecret = secret;
+    user.mfa.pendingTotpSecret = undefined;
+    return this.mfaEnrolled(user);
+  }
+
+  private startSmsEnrollment(user: MockUser, { phoneNumber }: { phoneNumber?: string }): MockResponse {
+    if (!phoneNumber || !/^\+[1-9]\d{7,14}$/.test(phoneNumber)) {
+      return this.error(400, 'Please enter a valid phone number', 'VALIDATION', {
+        phoneNumber: 'Enter the number with its country code, e.g. +15555550100',
+      });
+    }
+
+    user.mfa.pendingPhone = { phoneNumber, code: this.sendSmsCode(phoneNumber) };
+    return this.ok(undefined, 200, 'Code sent');
+  }
+
+  private confirmSmsEnrollment(user: MockUser, { code }: { code?: string }): MockResponse {
+    const pending = user.mfa.pendingPhone;
+    if (!pending) {
+      return this.error(400, 'Start adding the phone number again.', 'EXPIRED_TOKEN');
+    } else if (code !== pending.code) {
+      return this.wrongCode();
+    }
+
+    user.mfa.phoneNumber = pending.phoneNumber;
+    user.mfa.pendingPhone = undefined;
+    return this.mfaEnrolled(user);
+  }
+
+  private disableMfa(user: MockUser, { password }: { password?: string }): MockResponse {
+    if (!this.checkPassword(user, password)) {
+      return this.wrongPassword('password');
+    }
+
+    user.mfa = { backupCodes: [] };
+    return this.ok({ user: this.toPublicUser(user) }, 200, 'Two-factor authentication turned off');
+  }
+
+  // Enrolling a factor issues a fresh set of backup codes, replacing any earlier ones
+  private mfaEnrolled(user: MockUser): MockResponse {
+    user.mfa.backupCodes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const code = randomId(8).toUpperCase();
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+    return this.ok({ user: this.toPublicUser(user), backupCodes: [...user.mfa.backupCodes] });
+  }
+
+  private checkMfaCode(user: MockUser, method?: string, code?: string, smsCode?: string): boolean {
+    if (!code) {
+      return false;
+    } else if (method === 'totp') {
+      return !!user.mfa.totpSecret && this.matchesTotp(user.mfa.totpSecret, code);
+    } else if (method === 'sms') {
+      return !!smsCode && code === smsCode;
+    } else if (method === 'backup_code') {
+      // Backup codes are single use
+      const normalize = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+      const index = user.mfa.backupCodes.findIndex((backupCode) => normalize(backupCode) === normalize(code));
+      if (index !== -1) {
+        user.mfa.backupCodes.splice(index, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Accept the current code and its neighbours, to allow for clock drift
+  private matchesTotp(secret: string, code: string): boolean {
+    return [-1, 0, 1].some((step) => totp(secret, Date.now() + step * 30 * 1000) === code.trim());
+  }
+
+  // "Text" a six-digit code by logging it
+  private sendSmsCode(phoneNumber: string): string {
+    const code = String(Math.floor(Math.random() * 1_000_000)).padStart(6, '0');
+    this.smsCodes.set(phoneNumber, code);
+    console.log(`[mock-auth] SMS to ${phoneNumber}: your verification code is ${code}`);
+    return code;
+  }
+
+  private wrongCode(): MockResponse {
+    return this.error(403, 'Incorrect code', 'INVALID_CREDENTIALS', { code: 'Incorrect code' });
+  }
+
+  private resendVerification(email: string): MockResponse {
+    const user = this.users.get(email.toLowerCase());
+
+    // Like password resets, don't reveal which emails have accounts
+    if (user && !user.emailVerified) {
+      this.sendVerificationEmail(user);
+    }
+    return this.ok(undefined, 200, 'Verification email sent');
+  }
+
+  // "Email" a verification link by logging its token
+  private sendVerificationEmail(user: MockUser): void {
+    const token = this.issueEmailLinkToken(this.verificationTokens, user);
+    console.log(`[mock-auth] Verification link for ${user.email}: myapp://verify-email?token=${token}`);
+  }
+
+  private resetPassword({ email }: { email?: string }): MockResponse {
+    const user = email ? this.users.get(email.toLowerCase()) : undefined;
+
+    // Always succeed so the endpoint doesn't reveal which emails have accounts
+    if (user) {
+      const token = this.issueEmailLinkToken(this.resetTokens, user);
+      console.log(`[mock-auth] Password reset link for ${user.email}: myapp://reset-password?token=${token}`);
+    }
+    return this.ok(undefined, 200, 'Password reset email sent');
+  }
+
+  private confirmPasswordReset({ token, password }: { token?: string; password?: string }): MockResponse {
+    if (!password) {
+      return this.error(400, 'Password is required', 'VALIDATION', { password: 'Password is required' });
+    }
+
+    const redeemed = this.redeemEmailLinkToken(this.resetTokens, token);
+    if ('status' in redeemed) {
+      return redeemed;
+    }
+
+    redeemed.password = password;
+    // Sign out every existing session of the account
+    this.endSessions(redeemed.uid);
+    return this.ok(undefined, 200, 'Password updated');
+  }
+
+  private refresh({ refreshToken }: { refreshToken?: string }): MockResponse {
+    const sessionId = refreshToken ? this.refreshTokens.get(refreshToken) : undefined;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const user = session ? this.findUser(session.uid) : undefined;
+    if (!refreshToken || !session || !user) {
+      return this.error(401, 'Invalid refresh token', 'SESSION_EXPIRED');
+    }
+
+    // Refresh tokens are single use
+    this.refreshTokens.delete(refreshToken);
+    session.lastSeenAt = Date.now();
+    return this.ok(this.issueTokens(user, session));
+  }
+
+  // Ends the session the request was made from
+  private logout(session: MockSession): MockResponse {
+    this.endSession(session.id);
+    return this.ok(undefined, 200, 'Logged out');
+  }
+
+  private listSessions(user: MockUser, currentSession: MockSession): MockResponse {
+    const sessions = Array.from(this.sessions.values())
+      .filter((session) => session.uid === user.uid)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+      .map(({ id, deviceId, deviceName, platform, ipAddress, createdAt, lastSeenAt }) => ({
+        id,
+        deviceId,
+        deviceName,
+        platform,
+        ipAddress,
+        createdAt: new Date(createdAt).toISOString(),
+        lastSeenAt: new Date(lastSeenAt).toISOString(),
+        current: id === currentSession.id,
+      }));
+    return this.ok({ sessions });
+  }
+
+  private revokeSession(user: MockUser, sessionId: string): MockResponse {
+    if (this.sessions.get(sessionId)?.uid !== user.uid) {
+      return this.error(404, 'Session not found');
+    }
+
+    this.endSession(sessionId);
+    return this.ok(undefined, 200, 'Signed out of the device');
+  }
+
+  private revokeOtherSessions(user: MockUser, currentSession: MockSession): MockResponse {
+    this.endSessions(user.uid, currentSession.id);
+    return this.ok(undefined, 200, 'Signed out of all other devices');
+  }
+
+  private verifyEmail({ token }: { token?: string }): MockResponse {
+    const user = this.redeemEmailLinkToken(this.verificationTokens, token);
+    if ('status' in user) {
+      return user;
+    }
+
+    user.emailVerified = true;
+    return this.ok({ user: this.toPublicUser(user) }, 200, 'Email verified');
+  }
+
+  private updateProfile(user: MockUser, { displayName }: { displayName?: string }): MockResponse {
+    user.displayName = displayName || undefined;
+    return this.ok({ user: this.toPublicUser(user) }, 200, 'Profile updated');
+  }
+
+  private changePassword(
+    user: MockUser,
+    { currentPassword, newPassword }: { currentPassword?: string; newPassword?: string }
+  ): MockResponse {
+    if (!this.checkPassword(user, currentPassword)) {
+      return this.wrongPassword('currentPassword');
+    } else if (!newPassword) {
+      return this.error(400, 'New password is required', 'VALIDATION', { newPassword: 'New password is required' });
+    }
+
+    user.password = newPassword;
+    return this.ok(undefined, 200, 'Password changed');
+  }
+
+  private changeEmail(user: MockUser, { newEmail, password }: { newEmail?: string; password?: string }): MockResponse {
+    if (!this.checkPassword(user, password)) {
+      return this.wrongPassword('password');
+    } else if (!newEmail) {
+      return this.error(400, 'New email is required', 'VALIDATION', { newEmail: 'New email is required' });
+    } else if (this.users.has(newEmail.toLowerCase())) {
+      return this.error(409, 'An account with this email already exists', 'EMAIL_IN_USE', {
+        newEmail: 'An account with this email already exists',
+      });
+    }
+
+    this.users.delete(user.email);
+    user.email = newEmail.toLowerCase();
+    user.emailVerified = false;
+    this.users.set(user.email, user);
+    this.sendVerificationEmail(user);
+
+    return this.ok({ user: this.toPublicUser(user) }, 200, `We've sent a verification link to ${user.email}.`);
+  }
+
+  private deleteAccount(user: MockUser, { password }: { password?: string }): MockResponse {
+    if (!this.checkPassword(user, password)) {
+      return this.wrongPassword('password');
+    }
+
+    this.users.delete(user.email);
+    this.endSessions(user.uid);
+    return this.ok(undefined, 200, 'Account deleted');
+  }
+
+  private checkPassword(user: MockUser, password?: string): boolean {
+    return !!user.password && user.password === password;
+  }
+
+  // Password confirmation failures use 403 so clients don't mistake them for an expired token
+  private wrongPassword(field: string): MockResponse {
+    return this.error(403, 'Incorrect password', 'INVALID_CREDENTIALS', { [field]: 'Incorrect password' });
+  }
+
+  // Resolve the user and session from the bearer token, rejecting the request with 401 if it is missing or invalid
+  private withUser(request: MockRequest, handler: (user: MockUser, session: MockSession) => MockResponse): MockResponse {
+    const authorization = request.headers?.Authorization ?? request.headers?.authorization;
+    const token = authorization?.replace(/^Bearer /, '');
+    const claims = token && verifyJwtSignature(token, TOKEN_SECRET) ? decodeJwt(token) : null;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (
+      !claims ||
+      typeof claims.sub !== 'string' ||
+      (claims.exp ?? 0) <= now ||
+      (claims.iat ?? 0) < this.tokensValidAfter
+    ) {
+      return this.error(401, 'Token expired or invalid', 'UNAUTHORIZED');
+    }
+
+    // Tokens stop working as soon as their session is revoked
+    const session = typeof claims.sid === 'string' ? this.sessions.get(claims.sid) : undefined;
+    if (!session || session.uid !== claims.sub) {
+      return this.error(401, 'Session has been revoked', 'UNAUTHORIZED');
+    }
+
+    const user = this.findUser(claims.sub);
+    if (!user) {
+      return this.error(401, 'User no longer exists', 'UNAUTHORIZED');
+    }
+
+    session.lastSeenAt = Date.now();
+    return handler(user, session);
+  }
+
+  private createUser(
+    email: string,
+    password: string | undefined,
+    displayName: string | undefined,
+    emailVerified: boolean
+  ): MockUser {
+    const user: MockUser = {
+      uid: randomId(28),
+      email: email.toLowerCase(),
+      password,
+      displayName,
+      emailVerified,
+      roles: [],
+      providers: {},
+      mfa: { backupCodes: [] },
+    };
+    this.users.set(user.email, user);
+    return user;
+  }
+
+  private findUser(uid: string): MockUser | undefined {
+    return Array.from(this.users.values()).find((user) => user.uid === uid);
+  }
+
+  private findTokenFor(tokens: Map<string, EmailLinkToken>, email: string): string | undefined {
+    const user = this.users.get(email.toLowerCase());
+    // Most recently issued token first
+    return Array.from(tokens.entries()).reverse().find(([, { uid }]) => uid === user?.uid)?.[0];
+  }
+
+  private issueEmailLinkToken(tokens: Map<string, EmailLinkToken>, user: MockUser): string {
+    const token = randomId();
+    tokens.set(token, { uid: user.uid, expiresAt: Date.now() + (this.options.emailLinkTtlSeconds ?? 60 * 60) * 1000 });
+    return token;
+  }
+
+  // Consume a single-use email link token, returning its user or an error response
+  private redeemEmailLinkToken(tokens: Map<string, EmailLinkToken>, token?: string): MockUser | MockResponse {
+    const entry = token ? tokens.get(token) : undefined;
+    const user = entry ? this.findUser(entry.uid) : undefined;
+    if (!token || !entry || !user) {
+      return this.error(400, 'This link is invalid or has already been used', 'INVALID_TOKEN');
+    }
+
+    tokens.delete(token);
+    if (entry.expiresAt <= Date.now()) {
+      return this.error(400, 'This link has expired. Please request a new one.', 'EXPIRED_TOKEN');
+    }
+    return user;
+  }
+
+  private getMfaMethods(user: MockUser): MfaMethod[] {
+    return [...(user.mfa.totpSecret ? ['totp' as const] : []), ...(user.mfa.phoneNumber ? ['sms' as const] : [])];
+  }
+
+  // Issue tokens, or an MFA challenge when the user has a second factor enrolled
+  private signIn(user: MockUser, device: Partial<DeviceInfo> & { ipAddress: string }): MockResponse {
+    const methods = this.getMfaMethods(user);
+    if (!methods.length) {
+      return this.ok(this.issueSession(user, device));
+    }
+
+    const challengeId = randomId();
+    this.mfaChallenges.set(challengeId, {
+      uid: user.uid,
+      expiresAt: Date.now() + (this.options.mfaChallengeTtlSeconds ?? 5 * 60) * 1000,
+      attempts: 0,
+      device,
+    });
+    if (user.mfa.totpSecret) {
+      console.log(`[mock-auth] Authenticator code for ${user.email}: ${totp(user.mfa.totpSecret)}`);
+    }
+
+    return {
+      status: 200,
+      data: {
+        success: true,
+        status: 'mfa_required',
+        message: 'Enter the code from your second factor to finish signing in',
+        mfa: {
+          challengeId,
+          methods,
+          phoneHint: user.mfa.phoneNumber ? `•••• ${user.mfa.phoneNumber.slice(-4)}` : undefined,
+        },
+      },
+    };
+  }
+
+  private endSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    for (const [refreshToken, tokenSessionId] of this.refreshTokens) {
+      if (tokenSessionId === sessionId) {
+        this.refreshTokens.delete(refreshToken);
+      }
+    }
+  }
+
+  // Sign the user out everywhere, optionally except for one session
+  private endSessions(uid: string, exceptSessionId?: string): void {
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.uid === uid && session.id !== exceptSessionId) {
+        this.endSession(session.id);
+      }
+    }
+  }
+
+  // Start a session for the signing-in device and issue its first tokens
+  private issueSession(user: MockUser, device: Partial<DeviceInfo> & { ipAddress: string }) {
+    const now = Date.now();
+    const session: MockSession = {
+      id: randomId(16),
+      uid: user.uid,
+      deviceId: device.deviceId,
+      deviceName: device.deviceName || 'Unknown device',
+      platform: device.platform || 'unknown',
+      ipAddress: device.ipAddress,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    this.sessions.set(session.id, session);
+    return this.issueTokens(user, session);
+  }
+
+  private issueTokens(user: MockUser, session: MockSession) {
+    const now = Math.max(Math.floor(Date.now() / 1000), this.tokensValidAfter);
+    const token = signJwt(
+      {
+        sub: user.uid,
+        sid: session.id,
+        email: user.email,
+        roles: user.roles,
+        permissions: this.getPermissions(user),
+        iat: now,
+        exp: now + (this.options.accessTokenTtlSeconds ?? 15 * 60),
+        jti: randomId(12),
+      },
+      TOKEN_SECRET
+    );
+    const refreshToken = randomId(48);
+    this.refreshTokens.set(refreshToken, session.id);
+
+    return { user: this.toPublicUser(user), token, refreshToken };
+  }
+
+  private toPublicUser(user: MockUser) {
+    const { uid, email, displayName, emailVerified, roles } = user;
+    return {
+      uid,
+      email,
+      displayName,
+      emailVerified,
+      mfaMethods: this.getMfaMethods(user),
+      roles: [...roles],
+      permissions: this.getPermissions(user),
+    };
+  }
+
+  private getPermissions(user: MockUser): string[] {
+    return Array.from(new Set(user.roles.flatMap((role) => ROLE_PERMISSIONS[role] ?? [])));
+  }
+
+  private ok(data?: any, status = 200, message?: string): MockResponse {
+    return { status, data: { success: true, message, data } };
+  }
+
+  private error(status: number, message: string, code?: AuthErrorCode, errors?: Record<string, string>): MockResponse {
+    return { status, data: { success: false, message, code, errors } };
+  }
+}
@@ -0,0 +1,29 @@
+import { ConnectivityListener, ConnectivitySource } from '@/services/connectivity';
+
+/**
+ * Connectivity source whose online status is set by hand, for tests and offline demos
+ */
+export class MockConnectivitySource implements ConnectivitySource {
+  private listeners = new Set<ConnectivityListener>();
+  private isConnected: boolean;
+
+  constructor(isConnected = true) {
+    this.isConnected = isConnected;
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    listener(this.isConnected);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Go online or offline, notifying every subscriber
+   */
+  setConnected(isConnected: boolean): void {
+    this.isConnected = isConnected;
+    this.listeners.forEach((listener) => listener(isConnected));
+  }
+}
@@ -0,0 +1,79 @@
+import { MemoryAnalyticsSink } from '@/mocks/memoryAnalyticsSink';
+import { Analytics, scrubPii } from '@/services/analytics';
+
+describe('scrubPii', () => {
+  it('drops personal properties and masks email addresses in the rest', () => {
+    expect(
+      scrubPii({
+        form: 'login',
+        email: 'demo@example.com',
+        displayName: 'Demo User',
+        phoneNumber: '+15555550100',
+        message: 'No account found for demo@example.com',
+        fields: ['email', 'contact: demo@example.com'],
+        attempt: 2,
+      })
+    ).toEqual({
+      form: 'login',
+      message: 'No account found for [email]',
+      fields: ['email', 'contact: [email]'],
+      attempt: 2,
+    });
+  });
+});
+
+describe('Analytics', () => {
+  it('sends scrubbed screen views and events to every sink', () => {
+    const sink = new MemoryAnalyticsSink();
+    const otherSink = new MemoryAnalyticsSink();
+    const analytics = new Analytics([sink]);
+    analytics.addSink(otherSink);
+
+    analytics.screen('(auth)/login');
+    analytics.track('auth_form_failed', { form: 'login', errorCode: 'INVALID_CREDENTIALS', email: 'demo@example.com' });
+
+    expect(sink.events).toEqual([
+      { type: 'screen', name: '(auth)/login', properties: {}, timestamp: expect.any(Number) },
+      {
+        type: 'track',
+        name: 'auth_form_failed',
+        properties: { form: 'login', errorCode: 'INVALID_CREDENTIALS' },
+        timestamp: expect.any(Number),
+      },
+    ]);
+    expect(otherSink.events).toEqual(sink.events);
+  });
+
+  it('keeps sending to other sinks when one fails', async () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const sink = new MemoryAnalyticsSink();
+    const analytics = new Analytics([
+      { send: () => Promise.reject(new Error('Vendor is down')) },
+      {
+        send: () => {
+          throw new Error('Vendor SDK not initialized');
+        },
+      },
+      sink,
+    ]);
+
+    expect(() => analytics.track('auth_form_started', { form: 'register' })).not.toThrow();
+    await Promise.resolve();
+
+    expect(sink.names).toEqual(['auth_form_started']);
+    expect(consoleWarn).toHaveBeenCalledTimes(2);
+    consoleWarn.mockRestore();
+  });
+
+  it('stops sending to a removed sink', () => {
+    const sink = new MemoryAnalyticsSink();
+    const analytics = new Analytics();
+    const removeSink = analytics.addSink(sink);
+
+    analytics.track('auth_form_submitted', { form: 'forgot_password' });
+    removeSink();
+    analytics.track('auth_form_succeeded', { form: 'forgot_password' });
+
+    expect(sink.names).toEqual(['auth_form_submitted']);
+  });
+});
@@ -0,0 +1,149 @@
+import { AxiosAdapter, AxiosResponse } from 'axios';
+import * as z from 'zod';
+
+import { createMockAdapter } from '@/mocks/mockAdapter';
+import { DEFAULT_MOCK_USER, MockAuthServer } from '@/mocks/mockAuthServer';
+import { ApiClient, INVALID_RESPONSE_MESSAGE } from '@/services/apiClient';
+import { sessionsResponseSchema } from '@/services/authSchemas';
+import { AuthService, createAuthHandlers } from '@/services/authService';
+import { AuthResponse } from '@/services/authTypes';
+import { getStoredAccountIds, removeSession, saveSession, setActiveAccountId } from '@/services/sessionStorage';
+
+jest.mock('@/services/tokenStore', () => {
+  const { MemoryTokenStore } = require('@/mocks/memoryTokenStore');
+  return { tokenStore: new MemoryTokenStore() };
+});
+
+jest.mock('@/services/deviceInfo', () => ({
+  getDeviceInfo: jest.fn(async () => ({ deviceId: 'test-device', deviceName: 'Test Phone', platform: 'ios' })),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => require('crypto').randomUUID(),
+}));
+
+const noteSchema = z.object({ id: z.string(), text: z.string() });
+
+// Adapter answering every request with the same body, recording the requests it got
+const respondWith = (data: unknown, status = 200) =>
+  jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>(
+    async (config): Promise<AxiosResponse> => ({ data, status, statusText: String(status), headers: {}, config })
+  );
+
+const storeSession = async (authResponse: AuthResponse) => {
+  await saveSession(authResponse.data!);
+  await setActiveAccountId(authResponse.data!.user.uid);
+};
+
+describe('ApiClient', () => {
+  it('returns responses that match the schema', async () => {
+    const client = new ApiClient({ adapter: respondWith({ id: 'n1', text: 'Hello', extra: true }), logRetries: false });
+
+    await expect(client.get('/notes/n1', noteSchema)).resolves.toEqual({ id: 'n1', text: 'Hello' });
+  });
+
+  it('rejects responses that do not match the schema', async () => {
+    const client = new ApiClient({ adapter: respondWith({ id: 1 }), logRetries: false });
+
+    await expect(client.get('/notes/n1', noteSchema)).rejects.toMatchObject({
+      code: 'SERVER',
+      message: INVALID_RESPONSE_MESSAGE,
+      status: 200,
+    });
+  });
+
+  it('checks the request body before sending it', async () => {
+    const adapter = respondWith({ id: 'n1', text: '' });
+    const client = new ApiClient({ adapter, logRetries: false });
+
+    await expect(
+      client.post('/notes', { text: '' }, noteSchema, { bodySchema: z.object({ text: z.string().min(1, 'Write something') }) })
+    ).rejects.toMatchObject({ code: 'VALIDATION', fieldErrors: { text: 'Write something' } });
+    expect(adapter).not.toHaveBeenCalled();
+  });
+
+  it('cancels requests through an AbortController', async () => {
+    const client = new ApiClient({ adapter: respondWith({ id: 'n1', text: 'Hello' }), logRetries: false });
+    const controller = new AbortController();
+
+    const request = client.get('/notes/n1', noteSchema, { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+
+  it('does not retry a cancelled request', async () => {
+    const controller = new AbortController();
+    const adapter = respondWith({ error: 'Unavailable' }, 503);
+    adapter.mockImplementationOnce(async (config) => {
+      controller.abort();
+      return { data: {}, status: 503, statusText: '503', headers: {}, config };
+    });
+    const client = new ApiClient({ adapter, retryPolicies: { read: { baseDelayMs: 1 } }, logRetries: false });
+
+    await expect(client.get('/notes', noteSchema, { signal: controller.signal })).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  describe('shared with AuthService', () => {
+    let server: MockAuthServer;
+    let client: ApiClient;
+    let service: AuthService;
+
+    beforeAll(() => {
+      // The mock backend logs the links it "emails"
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    beforeEach(async () => {
+      server = new MockAuthServer();
+      client = new ApiClient({ adapter: createMockAdapter(server), logRetries: false });
+      service = new AuthService({ client });
+      client.setAuthHandlers(createAuthHandlers(service));
+      service.setSessionHandlers({ onTokenRefreshed: storeSession });
+      for (const uid of await getStoredAccountIds()) {
+        await removeSession(uid);
+      }
+    });
+
+    it("sends the active account's token", async () => {
+      await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+      const response = await client.get('/auth/sessions', sessionsResponseSchema);
+
+      expect(response.data?.sessions).toHaveLength(1);
+    });
+
+    it('refreshes an expired token and retries the request', async () => {
+      await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+      server.expireAccessTokens();
+      const handle = jest.spyOn(server, 'handle');
+
+      await expect(client.get('/auth/sessions', sessionsResponseSchema)).resolves.toMatchObject({ success: true });
+      expect(handle.mock.calls.filter(([request]) => request.path === '/auth/refresh')).toHaveLength(1);
+    });
+
+    it('renews tokens through the backend it is signed in by', async () => {
+      // A backend with its own client, like the mock backend, signing in a separate shared client
+      const backend = new AuthService({ adapter: createMockAdapter(server), logRetries: false });
+      backend.setSessionHandlers({ onTokenRefreshed: storeSession });
+      const sharedClient = new ApiClient({ adapter: createMockAdapter(server), logRetries: false });
+      sharedClient.setAuthHandlers(createAuthHandlers(backend));
+      const onTokenRefreshed = jest.fn();
+      backend.events.on('tokenRefreshed', onTokenRefreshed);
+      const refreshSession = jest.spyOn(service, 'refreshSession');
+      await storeSession(await backend.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+      server.expireAccessTokens();
+
+      await expect(sharedClient.get('/auth/sessions', sessionsResponseSchema)).resolves.toMatchObject({ success: true });
+      expect(onTokenRefreshed).toHaveBeenCalledTimes(1);
+      expect(refreshSession).not.toHaveBeenCalled();
+    });
+
+    it('fails signed-out requests with an expired session', async () => {
+      await expect(client.get('/auth/sessions', sessionsResponseSchema)).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    });
+  });
+});
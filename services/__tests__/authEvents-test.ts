@@ -0,0 +1,56 @@
+import { AuthError } from '@/services/authErrors';
+import { AuthEventEmitter } from '@/services/authEvents';
+
+describe('AuthEventEmitter', () => {
+  let events: AuthEventEmitter;
+
+  beforeEach(() => {
+    events = new AuthEventEmitter();
+  });
+
+  it('runs listeners one at a time in the order they subscribed', async () => {
+    const calls: string[] = [];
+    events.on('signedOut', async ({ uid }) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push(`clear cache for ${uid}`);
+    });
+    events.on('signedOut', ({ reason }) => {
+      calls.push(`track ${reason}`);
+    });
+
+    await events.emit('signedOut', { uid: 'alice', reason: 'logout' });
+
+    expect(calls).toEqual(['clear cache for alice', 'track logout']);
+  });
+
+  it('keeps calling listeners after one fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = jest.fn();
+    events.on('authError', () => {
+      throw new Error('Analytics is down');
+    });
+    events.on('authError', listener);
+
+    const error = new AuthError('INVALID_CREDENTIALS');
+    await expect(events.emit('authError', { error })).resolves.toBeUndefined();
+
+    expect(listener).toHaveBeenCalledWith({ error });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('only calls listeners of the emitted event until they unsubscribe', async () => {
+    const onSignedIn = jest.fn();
+    const onUserUpdated = jest.fn();
+    const unsubscribe = events.on('signedIn', onSignedIn);
+    events.on('userUpdated', onUserUpdated);
+    const user = { uid: 'alice', email: 'alice@example.com', emailVerified: true };
+
+    await events.emit('signedIn', { user });
+    unsubscribe();
+    await events.emit('signedIn', { user });
+
+    expect(onSignedIn).toHaveBeenCalledTimes(1);
+    expect(onUserUpdated).not.toHaveBeenCalled();
+  });
+});
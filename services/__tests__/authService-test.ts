@@ -0,0 +1,483 @@
+import { PERMISSIONS, ROLES } from '@/constants/Permissions';
+import { totp } from '@/mocks/crypto';
+import { createFakeProviderCredential } from '@/mocks/fakeProviders';
+import { createMockAdapter } from '@/mocks/mockAdapter';
+import { DEFAULT_ADMIN_MOCK_USER, DEFAULT_MFA_MOCK_USER, DEFAULT_MOCK_USER, MockAuthServer } from '@/mocks/mockAuthServer';
+import { MockConnectivitySource } from '@/mocks/mockConnectivity';
+import { AuthError, OFFLINE_MESSAGE } from '@/services/authErrors';
+import { AuthService } from '@/services/authService';
+import { ConnectivityMonitor } from '@/services/connectivity';
+import { getDeviceInfo } from '@/services/deviceInfo';
+import { AuthResponse } from '@/services/authTypes';
+import {
+  getActiveToken,
+  getStoredAccountIds,
+  removeSession,
+  saveSession,
+  setActiveAccountId,
+} from '@/services/sessionStorage';
+import { decodeJwt } from '@/utils/jwt';
+
+jest.mock('@/services/tokenStore', () => {
+  const { MemoryTokenStore } = require('@/mocks/memoryTokenStore');
+  return { tokenStore: new MemoryTokenStore() };
+});
+
+jest.mock('@/services/deviceInfo', () => ({
+  getDeviceInfo: jest.fn(async () => ({ deviceId: 'test-device', deviceName: 'Test Phone', platform: 'ios' })),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => require('crypto').randomUUID(),
+}));
+
+const OTHER_DEVICE = { deviceId: 'other-device', deviceName: 'Old Tablet', platform: 'android' };
+
+// Retry straight away so tests don't wait out the backoff
+const FAST_RETRIES = { auth: { baseDelayMs: 1 }, read: { baseDelayMs: 1 }, write: { baseDelayMs: 1 } };
+
+const storeSession = async (authResponse: AuthResponse) => {
+  await saveSession(authResponse.data!);
+  await setActiveAccountId(authResponse.data!.user.uid);
+};
+
+describe('AuthService', () => {
+  let server: MockAuthServer;
+  let service: AuthService;
+
+  beforeAll(() => {
+    // The mock backend logs the links it "emails"
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    server = new MockAuthServer();
+    service = new AuthService({ adapter: createMockAdapter(server), retryPolicies: FAST_RETRIES, logRetries: false });
+    for (const uid of await getStoredAccountIds()) {
+      await removeSession(uid);
+    }
+  });
+
+  it('signs in against the mock backend', async () => {
+    const response = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+
+    expect(response.success).toBe(true);
+    expect(response.data?.user.email).toBe(DEFAULT_MOCK_USER.email);
+    expect(response.data?.token).toEqual(expect.any(String));
+  });
+
+  it('rejects invalid credentials with a typed error', async () => {
+    await expect(service.login({ email: DEFAULT_MOCK_USER.email, password: 'wrong' })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+      status: 401,
+      message: 'Invalid email or password',
+    });
+  });
+
+  it('reports field errors for invalid registrations', async () => {
+    await expect(service.register({ email: DEFAULT_MOCK_USER.email, password: 'Password123' })).rejects.toMatchObject({
+      code: 'EMAIL_IN_USE',
+      fieldErrors: { email: 'An account with this email already exists' },
+    });
+  });
+
+  it('signs up with a provider credential', async () => {
+    const credential = createFakeProviderCredential('google', { email: 'new@example.com', name: 'New User' });
+
+    const response = await service.loginWithProvider(credential);
+
+    expect(response.data?.user).toMatchObject({ email: 'new@example.com', displayName: 'New User', emailVerified: true });
+    await expect(service.login({ email: 'new@example.com', password: '' })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+    });
+  });
+
+  it('links a provider to the existing account with the same email', async () => {
+    const credential = createFakeProviderCredential('apple', { email: DEFAULT_MOCK_USER.email });
+
+    await expect(service.loginWithProvider(credential)).rejects.toMatchObject({
+      code: 'ACCOUNT_EXISTS',
+      email: DEFAULT_MOCK_USER.email,
+    });
+    await expect(
+      service.linkProvider({ email: DEFAULT_MOCK_USER.email, password: 'wrong', credential })
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+
+    const linked = await service.linkProvider({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password, credential });
+    const signedIn = await service.loginWithProvider(credential);
+
+    expect(signedIn.data?.user.uid).toBe(linked.data?.user.uid);
+  });
+
+  it('completes a password reset once per token', async () => {
+    await service.resetPassword({ email: DEFAULT_MOCK_USER.email });
+    const token = server.getPasswordResetToken(DEFAULT_MOCK_USER.email)!;
+
+    await expect(service.confirmPasswordReset({ token, password: 'NewPassword1' })).resolves.toMatchObject({ success: true });
+    await expect(service.login({ email: DEFAULT_MOCK_USER.email, password: 'NewPassword1' })).resolves.toMatchObject({
+      success: true,
+    });
+    await expect(service.confirmPasswordReset({ token, password: 'OtherPassword1' })).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+  });
+
+  it('rejects expired password reset tokens', async () => {
+    server.configure({ emailLinkTtlSeconds: -1 });
+    await service.resetPassword({ email: DEFAULT_MOCK_USER.email });
+    const token = server.getPasswordResetToken(DEFAULT_MOCK_USER.email)!;
+
+    await expect(service.confirmPasswordReset({ token, password: 'NewPassword1' })).rejects.toMatchObject({
+      code: 'EXPIRED_TOKEN',
+    });
+  });
+
+  it('changes the password and rejects a wrong current password', async () => {
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    await expect(service.changePassword({ currentPassword: 'wrong', newPassword: 'NewPassword1' })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+      fieldErrors: { currentPassword: expect.any(String) },
+    });
+    await expect(
+      service.changePassword({ currentPassword: DEFAULT_MOCK_USER.password, newPassword: 'NewPassword1' })
+    ).resolves.toMatchObject({ success: true });
+    await expect(service.login({ email: DEFAULT_MOCK_USER.email, password: 'NewPassword1' })).resolves.toMatchObject({
+      success: true,
+    });
+  });
+
+  it('deletes the account so it can no longer sign in', async () => {
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    await expect(service.deleteAccount({ password: DEFAULT_MOCK_USER.password })).resolves.toMatchObject({ success: true });
+    await expect(service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+    });
+  });
+
+  it("makes requests with the active account's tokens", async () => {
+    const demo = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    const other = await service.register({ email: 'other@example.com', password: 'Password123' });
+    await saveSession(demo.data!);
+    await saveSession(other.data!);
+
+    await setActiveAccountId(other.data!.user.uid);
+    await expect(service.getCurrentUser()).resolves.toMatchObject({ user: { email: 'other@example.com' } });
+
+    await setActiveAccountId(demo.data!.user.uid);
+    await expect(service.getCurrentUser()).resolves.toMatchObject({ user: { email: DEFAULT_MOCK_USER.email } });
+  });
+
+  it('asks for a second factor before issuing tokens to MFA accounts', async () => {
+    const response = await service.login({ email: DEFAULT_MFA_MOCK_USER.email, password: DEFAULT_MFA_MOCK_USER.password });
+
+    expect(response).toMatchObject({
+      status: 'mfa_required',
+      mfa: { challengeId: expect.any(String), methods: ['totp', 'sms'], phoneHint: expect.stringContaining('0100') },
+    });
+    expect(response.data).toBeUndefined();
+
+    const challengeId = response.mfa!.challengeId;
+    await expect(service.verifyMfa({ challengeId, method: 'totp', code: '000000' })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+      fieldErrors: { code: expect.any(String) },
+    });
+
+    const verified = await service.verifyMfa({ challengeId, method: 'totp', code: totp(DEFAULT_MFA_MOCK_USER.totpSecret) });
+    expect(verified.data?.user).toMatchObject({ email: DEFAULT_MFA_MOCK_USER.email, mfaMethods: ['totp', 'sms'] });
+    expect(verified.data?.token).toEqual(expect.any(String));
+  });
+
+  it('completes an MFA sign-in with a texted code', async () => {
+    const { mfa } = await service.login({ email: DEFAULT_MFA_MOCK_USER.email, password: DEFAULT_MFA_MOCK_USER.password });
+
+    await service.sendMfaSmsCode(mfa!.challengeId);
+    const code = server.getSmsCode(DEFAULT_MFA_MOCK_USER.phoneNumber)!;
+
+    await expect(service.verifyMfa({ challengeId: mfa!.challengeId, method: 'sms', code })).resolves.toMatchObject({
+      data: { token: expect.any(String) },
+    });
+  });
+
+  it('enrolls an authenticator app and accepts each backup code once', async () => {
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    const { data: setup } = await service.startTotpEnrollment();
+    expect(setup?.otpauthUrl).toContain(`secret=${setup?.secret}`);
+
+    const { data: enrolled } = await service.confirmMfaEnrollment({ method: 'totp', code: totp(setup!.secret) });
+    expect(enrolled?.user.mfaMethods).toEqual(['totp']);
+    expect(enrolled?.backupCodes).toHaveLength(10);
+
+    const signIn = () => service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    const backupCode = enrolled!.backupCodes[0];
+
+    const first = await signIn();
+    expect(first.status).toBe('mfa_required');
+    await expect(
+      service.verifyMfa({ challengeId: first.mfa!.challengeId, method: 'backup_code', code: backupCode })
+    ).resolves.toMatchObject({ success: true });
+
+    const second = await signIn();
+    await expect(
+      service.verifyMfa({ challengeId: second.mfa!.challengeId, method: 'backup_code', code: backupCode })
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+  });
+
+  it('lists the devices signed in to the account and signs one out', async () => {
+    jest.mocked(getDeviceInfo).mockResolvedValueOnce(OTHER_DEVICE);
+    const otherDevice = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    const { data } = await service.getSessions();
+    expect(data?.sessions).toHaveLength(2);
+    expect(data?.sessions).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ deviceId: 'test-device', deviceName: 'Test Phone', platform: 'ios', current: true }),
+        expect.objectContaining({ ...OTHER_DEVICE, current: false }),
+      ])
+    );
+
+    const otherSession = data!.sessions.find((session) => !session.current)!;
+    await expect(service.revokeSession(otherSession.id)).resolves.toMatchObject({ success: true });
+
+    // The revoked device's tokens stop working right away
+    const request = { method: 'GET', path: '/auth/me', headers: { Authorization: `Bearer ${otherDevice.data!.token}` } };
+    await expect(server.handle(request)).resolves.toMatchObject({ status: 401 });
+    await expect(server.handle({ method: 'POST', path: '/auth/refresh', body: { refreshToken: otherDevice.data!.refreshToken } }))
+      .resolves.toMatchObject({ status: 401 });
+  });
+
+  it('signs out every other device', async () => {
+    jest.mocked(getDeviceInfo).mockResolvedValueOnce(OTHER_DEVICE);
+    await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    await expect(service.revokeOtherSessions()).resolves.toMatchObject({ success: true });
+
+    const { data } = await service.getSessions();
+    expect(data?.sessions).toEqual([expect.objectContaining({ deviceId: 'test-device', current: true })]);
+  });
+
+  it.each([
+    ['rate-limited', { code: 'RATE_LIMITED', status: 429, retryAfter: 30 }],
+    ['server-error', { code: 'SERVER', status: 500 }],
+    ['timeout', { code: 'TIMEOUT' }],
+  ] as const)('maps a simulated %s failure', async (failure, expected) => {
+    server.configure({ failures: { '/auth/login': failure } });
+
+    const error = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject(expected);
+  });
+
+  it('returns roles and permissions in the profile and the access token', async () => {
+    const response = await service.login({ email: DEFAULT_ADMIN_MOCK_USER.email, password: DEFAULT_ADMIN_MOCK_USER.password });
+    await storeSession(response);
+
+    const claims = decodeJwt(response.data!.token);
+    expect(claims).toMatchObject({ roles: [ROLES.ADMIN], permissions: expect.arrayContaining([PERMISSIONS.VIEW_ADMIN]) });
+    expect((await service.getCurrentUser())?.user).toMatchObject({
+      roles: [ROLES.ADMIN],
+      permissions: expect.arrayContaining([PERMISSIONS.VIEW_ADMIN, PERMISSIONS.VIEW_PREMIUM]),
+    });
+  });
+
+  it('picks up granted roles on the next token refresh', async () => {
+    const response = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    expect(response.data?.user.roles).toEqual([]);
+    server.setRoles(DEFAULT_MOCK_USER.email, [ROLES.PREMIUM]);
+
+    const refreshed = await service.refreshToken(response.data!.refreshToken);
+
+    expect(decodeJwt(refreshed.data!.token)).toMatchObject({ roles: [ROLES.PREMIUM], permissions: [PERMISSIONS.VIEW_PREMIUM] });
+  });
+
+  it('refreshes once for concurrent 401s and retries the requests', async () => {
+    const onTokenRefreshed = jest.fn(storeSession);
+    service.setSessionHandlers({ onTokenRefreshed });
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    server.expireAccessTokens();
+    const handle = jest.spyOn(server, 'handle');
+
+    const results = await Promise.all([service.getCurrentUser(), service.getCurrentUser(), service.getCurrentUser()]);
+
+    expect(results.map((data) => data?.user.email)).toEqual(Array(3).fill(DEFAULT_MOCK_USER.email));
+    expect(handle.mock.calls.filter(([request]) => request.path === '/auth/refresh')).toHaveLength(1);
+    expect(onTokenRefreshed).toHaveBeenCalledTimes(1);
+  });
+
+  it('gets a new access token for a session resumed with only its refresh token', async () => {
+    service.setSessionHandlers({ onTokenRefreshed: storeSession });
+    const response = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    // As on web after a reload, where access tokens aren't persisted
+    await storeSession({ ...response, data: { ...response.data!, token: '' } });
+
+    await expect(service.getCurrentUser()).resolves.toMatchObject({ user: { email: DEFAULT_MOCK_USER.email } });
+    expect(await getActiveToken()).toBeTruthy();
+  });
+
+  it('expires the session when the refresh itself fails', async () => {
+    const onSessionExpired = jest.fn();
+    service.setSessionHandlers({ onTokenRefreshed: storeSession, onSessionExpired });
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    server.expireAccessTokens();
+    server.configure({ failures: { '/auth/refresh': 'unauthorized' } });
+
+    await expect(service.getCurrentUser()).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session when another client spends the refresh token first', async () => {
+    // A second tab sharing the stored session
+    const otherService = new AuthService({ adapter: createMockAdapter(server), logRetries: false });
+    const onSessionExpired = jest.fn();
+    service.setSessionHandlers({ onTokenRefreshed: storeSession, onSessionExpired });
+    otherService.setSessionHandlers({ onTokenRefreshed: storeSession, onSessionExpired });
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    const tokens = await Promise.all([service.refreshSession(), otherService.refreshSession()]);
+
+    expect(tokens).toEqual([expect.any(String), expect.any(String)]);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    await expect(service.getCurrentUser()).resolves.toMatchObject({ user: { email: DEFAULT_MOCK_USER.email } });
+  });
+
+  it('reports token refreshes and expired sessions to event listeners', async () => {
+    const calls: string[] = [];
+    service.events.on('tokenRefreshed', ({ uid, expiresAt }) => {
+      calls.push(`tokenRefreshed ${uid} ${expiresAt! > Date.now()}`);
+    });
+    service.events.on('sessionExpired', ({ error }) => {
+      calls.push(`sessionExpired ${error.code}`);
+    });
+    service.setSessionHandlers({
+      onTokenRefreshed: storeSession,
+      onSessionExpired: () => {
+        calls.push('onSessionExpired');
+      },
+    });
+    const response = await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password });
+    await storeSession(response);
+
+    await service.refreshSession();
+    server.configure({ failures: { '/auth/refresh': 'unauthorized' } });
+    await expect(service.refreshSession()).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+
+    expect(calls).toEqual([
+      `tokenRefreshed ${response.data!.user.uid} true`,
+      'sessionExpired SESSION_EXPIRED',
+      'onSessionExpired',
+    ]);
+  });
+
+  it("keeps the session when the refresh can't reach the server", async () => {
+    const onSessionExpired = jest.fn();
+    service.setSessionHandlers({ onTokenRefreshed: storeSession, onSessionExpired });
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    server.expireAccessTokens();
+    server.configure({ failures: { '/auth/refresh': 'timeout' } });
+
+    await expect(service.getCurrentUser()).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    expect(await getStoredAccountIds()).toHaveLength(1);
+  });
+
+  it('retries a sign-in whose response was lost without starting a second session', async () => {
+    const handle = server.handle.bind(server);
+    jest.spyOn(server, 'handle').mockImplementationOnce(async (request) => {
+      await handle(request);
+      return { status: 0, timedOut: true };
+    });
+
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+
+    expect((await service.getSessions()).data?.sessions).toHaveLength(1);
+  });
+
+  it('retries reads after the wait the server asks for', async () => {
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+    const handle = jest
+      .spyOn(server, 'handle')
+      .mockResolvedValueOnce({ status: 503, data: { success: false }, headers: { 'retry-after': '0' } });
+
+    await expect(service.getCurrentUser()).resolves.toMatchObject({ user: { email: DEFAULT_MOCK_USER.email } });
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry requests that aren't idempotent", async () => {
+    await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+    server.configure({ failures: { '/auth/change-password': 'server-error' } });
+    const handle = jest.spyOn(server, 'handle');
+
+    await expect(
+      service.changePassword({ currentPassword: DEFAULT_MOCK_USER.password, newPassword: 'NewPassword456' })
+    ).rejects.toMatchObject({ code: 'SERVER' });
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up when the server asks to wait longer than the retry policy allows', async () => {
+    server.configure({ failures: { '/auth/login': 'rate-limited' } });
+    const handle = jest.spyOn(server, 'handle');
+
+    await expect(
+      service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password })
+    ).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfter: 30 });
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  describe('while offline', () => {
+    let network: MockConnectivitySource;
+
+    beforeEach(() => {
+      network = new MockConnectivitySource(false);
+      service = new AuthService({
+        adapter: createMockAdapter(server),
+        connectivity: new ConnectivityMonitor(network),
+        queueWhileOffline: true,
+        retryPolicies: FAST_RETRIES,
+        logRetries: false,
+      });
+    });
+
+    it('holds idempotent requests and sends them once back online', async () => {
+      network.setConnected(true);
+      await storeSession(await service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password }));
+      network.setConnected(false);
+      const handle = jest.spyOn(server, 'handle');
+
+      const sessions = service.getSessions();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(handle).not.toHaveBeenCalled();
+      network.setConnected(true);
+
+      await expect(sessions).resolves.toMatchObject({ success: true });
+    });
+
+    it('fails sign-in and session checks straight away', async () => {
+      const handle = jest.spyOn(server, 'handle');
+
+      await expect(
+        service.login({ email: DEFAULT_MOCK_USER.email, password: DEFAULT_MOCK_USER.password })
+      ).rejects.toMatchObject({ code: 'NETWORK', message: OFFLINE_MESSAGE });
+      await expect(service.getCurrentUser()).rejects.toMatchObject({ code: 'NETWORK' });
+      expect(handle).not.toHaveBeenCalled();
+    });
+
+    it('gives up on held requests after the queue timeout', async () => {
+      service = new AuthService({
+        adapter: createMockAdapter(server),
+        connectivity: new ConnectivityMonitor(network),
+        queueWhileOffline: true,
+        offlineQueueTimeoutMs: 10,
+      });
+
+      await expect(service.getSessions()).rejects.toMatchObject({ code: 'NETWORK' });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { FirebaseError } from 'firebase/app';
+
+import { FirebaseAuthService } from '@/services/firebaseAuthService';
+
+const mockCurrentUser = {
+  uid: 'firebase-user',
+  getIdTokenResult: jest.fn(),
+};
+
+jest.mock('@/config/firebase', () => ({
+  getFirebaseAuth: () => ({
+    authStateReady: async () => {},
+    currentUser: mockCurrentUser,
+  }),
+}));
+
+describe('FirebaseAuthService', () => {
+  let service: FirebaseAuthService;
+  let onSessionExpired: jest.Mock;
+  let sessionExpired: jest.Mock;
+
+  beforeEach(() => {
+    service = new FirebaseAuthService();
+    onSessionExpired = jest.fn();
+    sessionExpired = jest.fn();
+    service.setSessionHandlers({ onSessionExpired });
+    service.events.on('sessionExpired', sessionExpired);
+  });
+
+  it("keeps the session when the refresh can't reach Firebase", async () => {
+    mockCurrentUser.getIdTokenResult.mockRejectedValue(
+      new FirebaseError('auth/network-request-failed', 'Firebase: Error (auth/network-request-failed).')
+    );
+
+    await expect(service.refreshSession()).rejects.toMatchObject({ code: 'NETWORK' });
+    expect(sessionExpired).not.toHaveBeenCalled();
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('expires the session when Firebase rejects it', async () => {
+    mockCurrentUser.getIdTokenResult.mockRejectedValue(
+      new FirebaseError('auth/user-token-expired', 'Firebase: Error (auth/user-token-expired).')
+    );
+
+    await expect(service.refreshSession()).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    expect(sessionExpired).toHaveBeenCalledWith({ error: expect.objectContaining({ code: 'SESSION_EXPIRED' }) });
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+});
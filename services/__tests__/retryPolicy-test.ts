@@ -0,0 +1,36 @@
+import { DEFAULT_RETRY_POLICIES, getRetryDelay, resolveRetryPolicies } from '../retryPolicy';
+
+const policy = { ...DEFAULT_RETRY_POLICIES.read, maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe('getRetryDelay', () => {
+  it('doubles the backoff with every attempt up to the maximum delay', () => {
+    const maxRandom = () => 1;
+
+    expect(getRetryDelay(policy, 1, undefined, maxRandom)).toBe(100);
+    expect(getRetryDelay(policy, 2, undefined, maxRandom)).toBe(200);
+    expect(getRetryDelay({ ...policy, maxAttempts: 10 }, 6, undefined, maxRandom)).toBe(1000);
+  });
+
+  it('picks a random delay within the backoff', () => {
+    expect(getRetryDelay(policy, 3, undefined, () => 0)).toBe(0);
+    expect(getRetryDelay(policy, 3, undefined, () => 0.5)).toBe(200);
+  });
+
+  it('stops after the maximum number of attempts', () => {
+    expect(getRetryDelay(policy, 4)).toBeNull();
+  });
+
+  it("waits at least as long as the server's Retry-After, unless that's too long", () => {
+    expect(getRetryDelay(policy, 1, 0.5, () => 0)).toBe(500);
+    expect(getRetryDelay(policy, 1, 30)).toBeNull();
+  });
+});
+
+describe('resolveRetryPolicies', () => {
+  it('keeps the defaults for settings that are not overridden', () => {
+    const policies = resolveRetryPolicies({ auth: { maxAttempts: 1 } });
+
+    expect(policies.auth).toEqual({ ...DEFAULT_RETRY_POLICIES.auth, maxAttempts: 1 });
+    expect(policies.read).toEqual(DEFAULT_RETRY_POLICIES.read);
+  });
+});
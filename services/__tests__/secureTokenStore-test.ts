@@ -0,0 +1,97 @@
+import * as SecureStore from 'expo-secure-store';
+
+import { SecureTokenStore } from '@/services/secureTokenStore';
+import { SessionRecord } from '@/services/tokenStoreTypes';
+
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    __store: store,
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+const secureStore = (SecureStore as unknown as { __store: Map<string, string> }).__store;
+
+const createSession = (displayName = 'Alice'): SessionRecord => ({
+  token: 'token-alice',
+  refreshToken: 'refresh-alice',
+  user: { uid: 'alice', email: 'alice@example.com', displayName, emailVerified: true },
+});
+
+describe('SecureTokenStore', () => {
+  let tokenStore: SecureTokenStore;
+
+  beforeEach(() => {
+    secureStore.clear();
+    jest.mocked(SecureStore.setItemAsync).mockClear();
+    tokenStore = new SecureTokenStore();
+  });
+
+  it('stores a session as one record', async () => {
+    await tokenStore.setSession('alice', createSession());
+
+    expect(await tokenStore.getSession('alice')).toEqual(createSession());
+    expect([...secureStore.keys()]).toEqual(['session_chunk_a0_alice', 'session_alice']);
+  });
+
+  it('splits large sessions into chunks SecureStore accepts', async () => {
+    const session = createSession('Ålice 🚀'.repeat(400));
+
+    await tokenStore.setSession('alice', session);
+
+    expect(await tokenStore.getSession('alice')).toEqual(session);
+    expect(secureStore.size).toBeGreaterThan(3);
+    for (const value of secureStore.values()) {
+      expect(Buffer.byteLength(value)).toBeLessThanOrEqual(2048);
+    }
+  });
+
+  it('keeps the previous session when a write is interrupted', async () => {
+    await tokenStore.setSession('alice', createSession());
+    jest.mocked(SecureStore.setItemAsync).mockRejectedValueOnce(new Error('App was killed'));
+
+    await expect(tokenStore.setSession('alice', createSession('Alice Cooper'))).rejects.toThrow();
+
+    expect(await tokenStore.getSession('alice')).toEqual(createSession());
+  });
+
+  it('replaces the previous session and its chunks', async () => {
+    await tokenStore.setSession('alice', createSession('Ålice 🚀'.repeat(400)));
+
+    await tokenStore.setSession('alice', createSession('Alice Cooper'));
+
+    expect(await tokenStore.getSession('alice')).toEqual(createSession('Alice Cooper'));
+    expect([...secureStore.keys()]).toEqual(['session_alice', 'session_chunk_b0_alice']);
+  });
+
+  it('rejects a session that fails the integrity check', async () => {
+    await tokenStore.setSession('alice', createSession());
+    secureStore.set('session_chunk_a0_alice', secureStore.get('session_chunk_a0_alice')!.replace('Alice', 'Mallory'));
+
+    expect(await tokenStore.getSession('alice')).toBeNull();
+  });
+
+  it('rejects a session in an unknown format', async () => {
+    await tokenStore.setSession('alice', createSession());
+    const manifest = JSON.parse(secureStore.get('session_alice')!);
+    secureStore.set('session_alice', JSON.stringify({ ...manifest, version: 99 }));
+
+    expect(await tokenStore.getSession('alice')).toBeNull();
+  });
+
+  it('deletes every chunk of a session', async () => {
+    await tokenStore.setSession('alice', createSession('Ålice 🚀'.repeat(400)));
+
+    await tokenStore.deleteSession('alice');
+
+    expect(await tokenStore.getSession('alice')).toBeNull();
+    expect(secureStore.size).toBe(0);
+  });
+});
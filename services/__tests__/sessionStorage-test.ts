@@ -0,0 +1,123 @@
+import { MemoryTokenStore } from '@/mocks/memoryTokenStore';
+import {
+  getActiveAccountId,
+  getActiveToken,
+  getStoredAccountIds,
+  getStoredSession,
+  getStoredUsers,
+  migrateLegacySession,
+  removeSession,
+  saveSession,
+  setActiveAccountId,
+  StoredSession,
+} from '@/services/sessionStorage';
+import { tokenStore } from '@/services/tokenStore';
+
+jest.mock('@/services/tokenStore', () => {
+  const { MemoryTokenStore } = require('@/mocks/memoryTokenStore');
+  return { tokenStore: new MemoryTokenStore() };
+});
+
+const createSession = (uid: string, email: string): StoredSession => ({
+  token: `token-${uid}`,
+  refreshToken: `refresh-${uid}`,
+  user: { uid, email, emailVerified: true },
+});
+
+describe('sessionStorage', () => {
+  beforeEach(() => {
+    (tokenStore as MemoryTokenStore).clear();
+  });
+
+  it('keeps each account under its own keys', async () => {
+    await saveSession(createSession('alice', 'alice@example.com'));
+    await saveSession(createSession('bob@provider', 'bob@example.com'));
+
+    expect(await getStoredAccountIds()).toEqual(['alice', 'bob@provider']);
+    expect(await getStoredSession('bob@provider')).toEqual(createSession('bob@provider', 'bob@example.com'));
+    expect((await getStoredUsers()).map((user) => user.email)).toEqual(['alice@example.com', 'bob@example.com']);
+
+    // Saving doesn't change which account requests are made for
+    expect(await getActiveToken()).toBeNull();
+    await setActiveAccountId('bob@provider');
+    expect(await getActiveToken()).toBe('token-bob@provider');
+  });
+
+  it('forgets a removed account and clears it if it was active', async () => {
+    await saveSession(createSession('alice', 'alice@example.com'));
+    await saveSession(createSession('bob', 'bob@example.com'));
+    await setActiveAccountId('bob');
+
+    await removeSession('bob');
+
+    expect(await getStoredAccountIds()).toEqual(['alice']);
+    expect(await getStoredSession('bob')).toBeNull();
+    expect(await getActiveAccountId()).toBeNull();
+  });
+
+  it('migrates a session stored under the single-account keys', async () => {
+    const session = createSession('alice', 'alice@example.com');
+    await tokenStore.setItem('auth_token', session.token);
+    await tokenStore.setItem('refresh_token', session.refreshToken);
+    await tokenStore.setItem('user_data', JSON.stringify(session.user));
+
+    await migrateLegacySession();
+
+    expect(await getStoredSession('alice')).toEqual(session);
+    expect(await getActiveAccountId()).toBe('alice');
+    expect(await tokenStore.getItem('auth_token')).toBeNull();
+    expect(await tokenStore.getItem('user_data')).toBeNull();
+  });
+
+  it('migrates sessions split over per-account keys', async () => {
+    const alice = createSession('alice', 'alice@example.com');
+    const bob = createSession('bob', 'bob@example.com');
+    await tokenStore.setItem('accounts', JSON.stringify(['alice', 'bob']));
+    await tokenStore.setItem('auth_token_alice', alice.token);
+    await tokenStore.setItem('refresh_token_alice', alice.refreshToken);
+    // Stored before the user format was versioned
+    await tokenStore.setItem('user_data_alice', JSON.stringify(alice.user));
+    await tokenStore.setItem('auth_token_bob', bob.token);
+    await tokenStore.setItem('refresh_token_bob', bob.refreshToken);
+    await tokenStore.setItem('user_data_bob', JSON.stringify({ version: 2, user: bob.user }));
+
+    await migrateLegacySession();
+
+    expect(await getStoredSession('alice')).toEqual(alice);
+    expect(await getStoredSession('bob')).toEqual(bob);
+    expect(await tokenStore.getItem('auth_token_alice')).toBeNull();
+    expect(await tokenStore.getItem('user_data_bob')).toBeNull();
+  });
+
+  it.each([
+    ['an invalid user', { token: 'token-bob', refreshToken: 'refresh-bob', user: { uid: 'bob', emailVerified: 'yes' } }],
+    ['no tokens', { ...createSession('bob', 'bob@example.com'), token: '', refreshToken: '' }],
+  ])('signs out an account whose stored session has %s', async (_, storedSession) => {
+    await saveSession(createSession('alice', 'alice@example.com'));
+    await saveSession(createSession('bob', 'bob@example.com'));
+    await setActiveAccountId('bob');
+    await tokenStore.setSession('bob', storedSession);
+
+    expect(await getStoredSession('bob')).toBeNull();
+    expect(await getStoredAccountIds()).toEqual(['alice']);
+    expect(await getActiveAccountId()).toBeNull();
+    expect(await tokenStore.getSession('bob')).toBeNull();
+  });
+
+  it('drops a single-account session it cannot read', async () => {
+    await tokenStore.setItem('auth_token', 'token-alice');
+    await tokenStore.setItem('user_data', 'not json');
+
+    await migrateLegacySession();
+
+    expect(await getStoredAccountIds()).toEqual([]);
+    expect(await tokenStore.getItem('auth_token')).toBeNull();
+    expect(await tokenStore.getItem('user_data')).toBeNull();
+  });
+
+  it('resumes a session whose access token only lived in memory', async () => {
+    await saveSession({ ...createSession('alice', 'alice@example.com'), token: '' });
+
+    expect(await getStoredSession('alice')).toEqual({ ...createSession('alice', 'alice@example.com'), token: '' });
+  });
+});
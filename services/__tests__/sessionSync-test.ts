@@ -0,0 +1,45 @@
+import { BrowserSessionSync } from '@/services/sessionSync.web';
+
+// BroadcastChannel delivers messages asynchronously
+const nextMessage = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('BrowserSessionSync', () => {
+  const tabs: BrowserSessionSync[] = [];
+
+  const openTab = () => {
+    const tab = new BrowserSessionSync();
+    tabs.push(tab);
+    return tab;
+  };
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.close());
+  });
+
+  it('tells other tabs about session changes', async () => {
+    const tab = openTab();
+    const otherTab = openTab();
+    const onChange = jest.fn();
+    const onOwnChange = jest.fn();
+    otherTab.subscribe(onChange);
+    tab.subscribe(onOwnChange);
+
+    tab.notify();
+    await nextMessage();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onOwnChange).not.toHaveBeenCalled();
+  });
+
+  it('stops notifying after unsubscribing', async () => {
+    const tab = openTab();
+    const onChange = jest.fn();
+    const unsubscribe = openTab().subscribe(onChange);
+
+    unsubscribe();
+    tab.notify();
+    await nextMessage();
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
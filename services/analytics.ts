@@ -0,0 +1,107 @@
+export type AnalyticsPropertyValue = string | number | boolean | string[] | null | undefined;
+
+export type AnalyticsProperties = Record<string, AnalyticsPropertyValue>;
+
+export interface AnalyticsEvent {
+  // 'screen' for screen views, named after the route; 'track' for everything else
+  type: 'screen' | 'track';
+  name: string;
+  properties: AnalyticsProperties;
+  // Millisecond timestamp of when it happened
+  timestamp: number;
+}
+
+/**
+ * Where analytics events go: `ConsoleAnalyticsSink` while developing, `MemoryAnalyticsSink` in tests,
+ * or an adapter sending them to a vendor's SDK. Events are already scrubbed of PII when they get here.
+ */
+export interface AnalyticsSink {
+  send(event: AnalyticsEvent): Promise<void> | void;
+}
+
+// Properties whose values are personal or secret, whatever they contain
+const SENSITIVE_PROPERTY = /email|password|phone|token|secret|displayName|address/i;
+
+const EMAIL_PATTERN = /[^\s@/?&=]+@[^\s@/?&=]+\.[^\s@/?&=]+/g;
+
+const scrubString = (value: string): string => value.replace(EMAIL_PATTERN, '[email]');
+
+/**
+ * Drop properties that hold personal data, and mask email addresses in the rest, e.g. in error messages
+ */
+export function scrubPii(properties: AnalyticsProperties): AnalyticsProperties {
+  const scrubbed: AnalyticsProperties = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (SENSITIVE_PROPERTY.test(key)) {
+      continue;
+    }
+    if (typeof value === 'string') {
+      scrubbed[key] = scrubString(value);
+    } else if (Array.isArray(value)) {
+      scrubbed[key] = value.map(scrubString);
+    } else {
+      scrubbed[key] = value;
+    }
+  }
+  return scrubbed;
+}
+
+/**
+ * Logs events to the console, for development
+ */
+export class ConsoleAnalyticsSink implements AnalyticsSink {
+  send(event: AnalyticsEvent): void {
+    console.log(`[Analytics] ${event.type} ${event.name}`, event.properties);
+  }
+}
+
+/**
+ * Sends screen views and events to every registered sink, scrubbing PII first.
+ * Analytics must never break the app, so a sink that fails is logged and skipped.
+ */
+export class Analytics {
+  private sinks: AnalyticsSink[];
+
+  constructor(sinks: AnalyticsSink[] = []) {
+    this.sinks = [...sinks];
+  }
+
+  /**
+   * Start sending events to a sink, e.g. a vendor adapter; returns a function that removes it again
+   */
+  addSink(sink: AnalyticsSink): () => void {
+    this.sinks.push(sink);
+    return () => {
+      this.sinks = this.sinks.filter((other) => other !== sink);
+    };
+  }
+
+  /**
+   * Record that a screen was shown
+   */
+  screen(name: string, properties: AnalyticsProperties = {}): void {
+    this.send({ type: 'screen', name, properties: scrubPii(properties), timestamp: Date.now() });
+  }
+
+  /**
+   * Record an event, such as a step of the sign-in funnel
+   */
+  track(name: string, properties: AnalyticsProperties = {}): void {
+    this.send({ type: 'track', name, properties: scrubPii(properties), timestamp: Date.now() });
+  }
+
+  private send(event: AnalyticsEvent): void {
+    for (const sink of this.sinks) {
+      try {
+        Promise.resolve(sink.send(event)).catch((error) => console.warn('Analytics sink failed:', error));
+      } catch (error) {
+        console.warn('Analytics sink failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * The app's analytics. Events are logged to the console in development; add a vendor adapter with `addSink`.
+ */
+export const analytics = new Analytics(__DEV__ ? [new ConsoleAnalyticsSink()] : []);
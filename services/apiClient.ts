@@ -0,0 +1,386 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  Method,
+} from 'axios';
+import Constants from 'expo-constants';
+import * as Crypto from 'expo-crypto';
+import * as z from 'zod';
+
+import {
+  AuthError,
+  AuthErrorCode,
+  isAuthErrorCode,
+  OFFLINE_MESSAGE,
+  parseFieldErrors,
+  parseRetryAfter,
+} from '@/services/authErrors';
+import { connectivity, ConnectivityMonitor } from '@/services/connectivity';
+import { getRetryDelay, RequestKind, resolveRetryPolicies, RetryPolicy } from '@/services/retryPolicy';
+import { tokenStore } from '@/services/tokenStore';
+
+export interface ApiClientOptions {
+  // Custom axios adapter, e.g. the mock backend's adapter in development and tests
+  adapter?: AxiosAdapter;
+  // Where the online status comes from; the device's NetInfo by default
+  connectivity?: ConnectivityMonitor;
+  // Hold idempotent requests made while offline and send them once the connection is back
+  queueWhileOffline?: boolean;
+  // How long a held request waits for the connection before failing
+  offlineQueueTimeoutMs?: number;
+  // Overrides of the default retry policy for each kind of request
+  retryPolicies?: Partial<Record<RequestKind, Partial<RetryPolicy>>>;
+  // Log every retry with console.debug; on in development builds
+  logRetries?: boolean;
+  // Send cookies with cross-origin requests on web, for a refresh token kept in an httpOnly cookie
+  withCredentials?: boolean;
+}
+
+// Hooks the auth backend registers so every request is signed in and survives an expired token
+export interface AuthHandlers {
+  // Access token of the active account, or null when signed out
+  getToken: () => Promise<string | null>;
+  // Get a new access token after a 401, sharing one refresh between concurrent requests
+  refreshToken: () => Promise<string>;
+  // Endpoints whose 401 responses mean bad credentials rather than an expired token
+  publicEndpoints?: string[];
+}
+
+export interface ApiRequestOptions {
+  // Cancel the request, including any retries still to come, by aborting its controller
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  // Send an idempotency key so a POST or PATCH can be retried safely
+  idempotent?: boolean;
+  // Fail straight away while offline instead of waiting for the connection, for answers needed right now
+  failFast?: boolean;
+}
+
+export interface ApiBodyOptions<TBody> extends ApiRequestOptions {
+  // Checked before the request is sent; failures are thrown as VALIDATION errors
+  bodySchema?: z.ZodType<TBody>;
+}
+
+export interface ApiRequest<TResponse, TBody = unknown> extends ApiBodyOptions<TBody> {
+  method: Method;
+  url: string;
+  body?: TBody;
+  // Checked against the response; a mismatch is thrown as a SERVER error
+  responseSchema: z.ZodType<TResponse>;
+}
+
+// Request config flagged once it has been retried after a token refresh, counting attempts for retries
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _attempts?: number;
+  failFast?: boolean;
+}
+
+// Requests that can be held while offline or retried, as sending them late or twice is harmless
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const READ_METHODS = ['get', 'head', 'options'];
+
+// Lets the backend recognize a repeated request and return the first response, so POSTs can be retried
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const DEFAULT_OFFLINE_QUEUE_TIMEOUT_MS = 30000;
+
+export const INVALID_RESPONSE_MESSAGE = 'Received an unexpected response from the server.';
+
+/**
+ * Typed HTTP client for the app's backend. Signs requests in, refreshes expired tokens, retries and
+ * holds requests while offline, and checks request bodies and responses against zod schemas.
+ */
+class ApiClient {
+  private api: AxiosInstance;
+  private authHandlers: AuthHandlers | null = null;
+  private connectivity: ConnectivityMonitor;
+  private queueWhileOffline: boolean;
+  private offlineQueueTimeoutMs: number;
+  private retryPolicies: Record<RequestKind, RetryPolicy>;
+  private logRetries: boolean;
+
+  constructor(options: ApiClientOptions = {}) {
+    this.connectivity = options.connectivity ?? connectivity;
+    this.queueWhileOffline = options.queueWhileOffline ?? false;
+    this.offlineQueueTimeoutMs = options.offlineQueueTimeoutMs ?? DEFAULT_OFFLINE_QUEUE_TIMEOUT_MS;
+    this.retryPolicies = resolveRetryPolicies(options.retryPolicies);
+    this.logRetries = options.logRetries ?? __DEV__;
+
+    // Configure base URL from environment variables
+    const baseURL = Constants.expoConfig?.extra?.apiBaseUrl || process.env.API_BASE_URL || 'http://localhost:8080/api';
+
+    this.api = axios.create({
+      baseURL,
+      adapter: options.adapter,
+      withCredentials: options.withCredentials,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    // Request interceptor to wait out offline periods, apply the retry policy's timeout and add auth token
+    this.api.interceptors.request.use(
+      async (config: RetriableRequestConfig) => {
+        if (this.connectivity.isConnected === false) {
+          await this.waitForConnection(config);
+        }
+
+        if (!config.timeout) {
+          config.timeout = this.getRetryPolicy(config).timeoutMs;
+        }
+
+        const token = await this.getToken();
+        // Requests retried after a refresh already carry the new token
+        if (token && !config.headers.Authorization) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+        return config;
+      },
+      (error) => {
+        return Promise.reject(error);
+      }
+    );
+
+    // Response interceptor to refresh expired tokens and retry the failed request
+    this.api.interceptors.response.use(
+      (response: AxiosResponse) => response,
+      async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          this.authHandlers &&
+          !this.isPublicEndpoint(originalRequest.url)
+        ) {
+          originalRequest._retry = true;
+          const token = await this.authHandlers.refreshToken();
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return this.api(originalRequest);
+        }
+
+        const retryDelay = originalRequest ? this.getRetryDelay(error, originalRequest) : null;
+        if (originalRequest && retryDelay !== null) {
+          const attempts = originalRequest._attempts ?? 1;
+          originalRequest._attempts = attempts + 1;
+          if (this.logRetries) {
+            const reason = error.response ? `status ${error.response.status}` : error.code;
+            console.debug(
+              `[ApiClient] Retrying ${originalRequest.method?.toUpperCase()} ${originalRequest.url} in ${retryDelay}ms ` +
+                `(attempt ${attempts + 1} of ${this.getRetryPolicy(originalRequest).maxAttempts}, ${reason})`
+            );
+          }
+          // Aborting during the wait cancels the retry, as the signal stays on the request config
+          await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          return this.api(originalRequest);
+        }
+
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Register how requests get the access token and renew it; set by the auth backend
+   */
+  setAuthHandlers(handlers: AuthHandlers | null): void {
+    this.authHandlers = handlers;
+  }
+
+  /**
+   * Send a request and return its response, validated against `responseSchema`
+   */
+  async request<TResponse, TBody = unknown>(request: ApiRequest<TResponse, TBody>): Promise<TResponse> {
+    const { method, url, body, bodySchema, responseSchema, signal, headers, idempotent, failFast } = request;
+
+    if (bodySchema) {
+      const result = bodySchema.safeParse(body);
+      if (!result.success) {
+        throw new AuthError('VALIDATION', undefined, { fieldErrors: toFieldErrors(result.error), cause: result.error });
+      }
+    }
+
+    let response: AxiosResponse<unknown>;
+    try {
+      const config: AxiosRequestConfig & Pick<RetriableRequestConfig, 'failFast'> = {
+        method,
+        url,
+        data: body,
+        signal,
+        failFast,
+        headers: idempotent ? { ...headers, [IDEMPOTENCY_KEY_HEADER]: Crypto.randomUUID() } : headers,
+      };
+      response = await this.api.request(config);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+
+    const result = responseSchema.safeParse(response.data);
+    if (!result.success) {
+      throw new AuthError('SERVER', INVALID_RESPONSE_MESSAGE, { status: response.status, cause: result.error });
+    }
+    return result.data;
+  }
+
+  get<TResponse>(url: string, responseSchema: z.ZodType<TResponse>, options?: ApiRequestOptions): Promise<TResponse> {
+    return this.request({ ...options, method: 'get', url, responseSchema });
+  }
+
+  post<TResponse, TBody = unknown>(
+    url: string,
+    body: TBody,
+    responseSchema: z.ZodType<TResponse>,
+    options?: ApiBodyOptions<TBody>
+  ): Promise<TResponse> {
+    return this.request({ ...options, method: 'post', url, body, responseSchema });
+  }
+
+  put<TResponse, TBody = unknown>(
+    url: string,
+    body: TBody,
+    responseSchema: z.ZodType<TResponse>,
+    options?: ApiBodyOptions<TBody>
+  ): Promise<TResponse> {
+    return this.request({ ...options, method: 'put', url, body, responseSchema });
+  }
+
+  patch<TResponse, TBody = unknown>(
+    url: string,
+    body: TBody,
+    responseSchema: z.ZodType<TResponse>,
+    options?: ApiBodyOptions<TBody>
+  ): Promise<TResponse> {
+    return this.request({ ...options, method: 'patch', url, body, responseSchema });
+  }
+
+  delete<TResponse, TBody = unknown>(
+    url: string,
+    responseSchema: z.ZodType<TResponse>,
+    options?: ApiBodyOptions<TBody> & { body?: TBody }
+  ): Promise<TResponse> {
+    return this.request({ ...options, method: 'delete', url, responseSchema });
+  }
+
+  // Get the access token from the auth backend, sending the request signed out if that fails
+  private async getToken(): Promise<string | null> {
+    try {
+      return (await this.authHandlers?.getToken()) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isPublicEndpoint(url?: string): boolean {
+    return !!this.authHandlers?.publicEndpoints?.includes(url ?? '');
+  }
+
+  // Hold a request made while offline until the connection is back, or fail it straight away
+  private async waitForConnection(config: RetriableRequestConfig): Promise<void> {
+    const canQueue = this.queueWhileOffline && IDEMPOTENT_METHODS.includes(config.method ?? 'get') && !config.failFast;
+
+    if (!canQueue || !(await this.connectivity.waitUntilConnected(this.offlineQueueTimeoutMs))) {
+      throw new AuthError('NETWORK', OFFLINE_MESSAGE);
+    }
+  }
+
+  private getRetryPolicy(config: InternalAxiosRequestConfig): RetryPolicy {
+    if (this.isPublicEndpoint(config.url)) {
+      return this.retryPolicies.auth;
+    }
+    return READ_METHODS.includes(config.method ?? 'get') ? this.retryPolicies.read : this.retryPolicies.write;
+  }
+
+  // Delay before retrying a failed request, or null if it shouldn't be retried.
+  // Requests that aren't idempotent are only retried when they carry an idempotency key.
+  private getRetryDelay(error: AxiosError, config: RetriableRequestConfig): number | null {
+    const canRepeat = IDEMPOTENT_METHODS.includes(config.method ?? 'get') || !!config.headers[IDEMPOTENCY_KEY_HEADER];
+    if (!canRepeat || config.signal?.aborted) {
+      return null;
+    }
+
+    const policy = this.getRetryPolicy(config);
+    const isRetryable = error.response
+      ? policy.retryStatuses.includes(error.response.status)
+      : policy.retryErrorCodes.includes(error.code ?? '');
+    if (!isRetryable) {
+      return null;
+    }
+
+    return getRetryDelay(policy, config._attempts ?? 1, parseRetryAfter(error.response?.headers?.['retry-after']));
+  }
+
+  // Format API errors into typed errors
+  private formatError(error: unknown): AuthError {
+    if (axios.isCancel(error)) {
+      return new AuthError('CANCELLED', undefined, { cause: error });
+    } else if (!axios.isAxiosError(error)) {
+      // Already formatted (e.g. a failed token refresh surfaced by the interceptor)
+      return AuthError.from(error);
+    }
+
+    const { response } = error;
+    if (!response) {
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new AuthError('TIMEOUT', undefined, { cause: error });
+      }
+      // Tell a lost connection apart from a server that can't be reached
+      const message = this.connectivity.isConnected === false ? OFFLINE_MESSAGE : undefined;
+      return new AuthError('NETWORK', message, { cause: error });
+    }
+
+    const data = (response.data ?? {}) as Record<string, any>;
+    const code = isAuthErrorCode(data.code) ? data.code : this.getErrorCode(response.status, error.config?.url);
+
+    return new AuthError(code, data.message || data.error, {
+      status: response.status,
+      fieldErrors: parseFieldErrors(data.errors),
+      retryAfter: parseRetryAfter(response.headers?.['retry-after']),
+      email: typeof data.email === 'string' ? data.email : undefined,
+      cause: error,
+    });
+  }
+
+  // Infer the error code from the HTTP status when the backend doesn't send one
+  private getErrorCode(status: number, url?: string): AuthErrorCode {
+    if (status === 401) {
+      return this.isPublicEndpoint(url) ? 'INVALID_CREDENTIALS' : 'UNAUTHORIZED';
+    } else if (status === 400 || status === 422) {
+      return 'VALIDATION';
+    } else if (status === 403) {
+      return 'FORBIDDEN';
+    } else if (status === 409) {
+      return 'EMAIL_IN_USE';
+    } else if (status === 410) {
+      return 'EXPIRED_TOKEN';
+    } else if (status === 429) {
+      return 'RATE_LIMITED';
+    } else if (status >= 500) {
+      return 'SERVER';
+    }
+    return 'UNKNOWN';
+  }
+}
+
+// First message for each invalid field of a request body
+function toFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join('.');
+    fieldErrors[field] ??= issue.message;
+  }
+  return fieldErrors;
+}
+
+/**
+ * Client for the app's backend, signed in as the active account
+ */
+export const apiClient = new ApiClient({ queueWhileOffline: true, withCredentials: tokenStore.usesRefreshTokenCookie });
+
+// Export class for testing purposes
+export { ApiClient };
@@ -0,0 +1,36 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+
+/**
+ * Whether the device can lock the app: it needs biometric hardware with a face or fingerprint enrolled.
+ */
+export async function isAppLockAvailable(): Promise<boolean> {
+  try {
+    const [hasHardware, isEnrolled] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+    ]);
+    return hasHardware && isEnrolled;
+  } catch (error) {
+    console.warn('Failed to check biometric support:', error);
+    return false;
+  }
+}
+
+/**
+ * Prompt for Face ID, Touch ID or a fingerprint, falling back to the device passcode.
+ * Resolves to whether the user was authenticated.
+ */
+export async function authenticateWithBiometrics(promptMessage = 'Unlock to continue'): Promise<boolean> {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      fallbackLabel: 'Use Passcode',
+      cancelLabel: 'Cancel',
+      disableDeviceFallback: false,
+    });
+    return result.success;
+  } catch (error) {
+    console.warn('Biometric authentication failed:', error);
+    return false;
+  }
+}
@@ -0,0 +1,43 @@
+import Constants from 'expo-constants';
+
+import { apiClient } from '@/services/apiClient';
+import { AuthService, authService, createAuthHandlers } from '@/services/authService';
+import { AuthBackend } from '@/services/authTypes';
+import { firebaseAuthService } from '@/services/firebaseAuthService';
+
+export type AuthBackendType = 'rest' | 'firebase' | 'mock';
+
+// Select the backend from app config or environment variables, defaulting to the custom REST API
+export const authBackendType: AuthBackendType =
+  Constants.expoConfig?.extra?.authBackend || process.env.AUTH_BACKEND || 'rest';
+
+function createAuthBackend(): AuthBackend {
+  switch (authBackendType) {
+    case 'firebase':
+      return firebaseAuthService;
+    case 'mock': {
+      // Required here, behind `__DEV__`, so release builds don't ship the mock server and its demo accounts
+      if (!__DEV__) {
+        throw new Error('The mock auth backend is only available in development builds');
+      }
+      const { createMockAdapter } = require('@/mocks/mockAdapter') as typeof import('@/mocks/mockAdapter');
+      const { MockAuthServer } = require('@/mocks/mockAuthServer') as typeof import('@/mocks/mockAuthServer');
+
+      // REST client served by the in-memory mock backend, for development without a server
+      return new AuthService({
+        adapter: createMockAdapter(new MockAuthServer({ latencyMs: 300 })),
+        queueWhileOffline: true,
+      });
+    }
+    default:
+      return authService;
+  }
+}
+
+/**
+ * The auth backend used by the app
+ */
+export const authBackend: AuthBackend = createAuthBackend();
+
+// The app's own requests are signed in, and their expired tokens renewed, by whichever backend is selected
+apiClient.setAuthHandlers(createAuthHandlers(authBackend));
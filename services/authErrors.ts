@@ -0,0 +1,163 @@
+// Machine-readable reasons an auth operation can fail
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'EMAIL_IN_USE'
+  | 'ACCOUNT_EXISTS'
+  | 'VALIDATION'
+  | 'INVALID_TOKEN'
+  | 'EXPIRED_TOKEN'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'SESSION_EXPIRED'
+  | 'RATE_LIMITED'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'SERVER'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+const AUTH_ERROR_CODES: AuthErrorCode[] = [
+  'INVALID_CREDENTIALS',
+  'EMAIL_NOT_VERIFIED',
+  'EMAIL_IN_USE',
+  'ACCOUNT_EXISTS',
+  'VALIDATION',
+  'INVALID_TOKEN',
+  'EXPIRED_TOKEN',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'SESSION_EXPIRED',
+  'RATE_LIMITED',
+  'NETWORK',
+  'TIMEOUT',
+  'SERVER',
+  'CANCELLED',
+  'UNKNOWN',
+];
+
+// Fallback messages when the backend doesn't provide one
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  INVALID_CREDENTIALS: 'Invalid email or password.',
+  EMAIL_NOT_VERIFIED: 'Please verify your email address before signing in.',
+  EMAIL_IN_USE: 'An account with this email already exists.',
+  ACCOUNT_EXISTS: 'An account with this email already exists. Sign in with your password to link it.',
+  VALIDATION: 'Please check the highlighted fields.',
+  INVALID_TOKEN: 'This link is invalid or has already been used.',
+  EXPIRED_TOKEN: 'This link has expired. Please request a new one.',
+  UNAUTHORIZED: 'You need to sign in to continue.',
+  FORBIDDEN: "You don't have permission to do that.",
+  SESSION_EXPIRED: 'Your session has expired. Please sign in again.',
+  RATE_LIMITED: 'Too many attempts. Please try again later.',
+  NETWORK: 'Network error. Please check your connection.',
+  TIMEOUT: 'Request timeout. Please try again.',
+  SERVER: 'Something went wrong on our end. Please try again.',
+  CANCELLED: 'The request was cancelled.',
+  UNKNOWN: 'An unexpected error occurred. Please try again.',
+};
+
+// Wait used for rate limiting when the backend sends no Retry-After hint
+export const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+// Message for NETWORK errors raised because the device is offline
+export const OFFLINE_MESSAGE = "You're offline. Check your connection and try again.";
+
+export interface AuthErrorOptions {
+  status?: number;
+  // Validation messages keyed by request field name
+  fieldErrors?: Record<string, string>;
+  // Seconds to wait before retrying
+  retryAfter?: number;
+  // Email address of the existing account, for ACCOUNT_EXISTS
+  email?: string;
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by every auth backend, so screens can react to the failure reason
+ * instead of matching on messages
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  readonly status?: number;
+  readonly fieldErrors?: Record<string, string>;
+  readonly retryAfter?: number;
+  readonly email?: string;
+  readonly cause?: unknown;
+
+  constructor(code: AuthErrorCode, message?: string, options: AuthErrorOptions = {}) {
+    super(message || AUTH_ERROR_MESSAGES[code]);
+    this.name = 'AuthError';
+    this.code = code;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors;
+    this.retryAfter = options.retryAfter;
+    this.email = options.email;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Whether retrying the same request later may succeed
+   */
+  get isRetryable(): boolean {
+    return ['RATE_LIMITED', 'NETWORK', 'TIMEOUT', 'SERVER'].includes(this.code);
+  }
+
+  /**
+   * Wrap any thrown value in an AuthError, keeping AuthErrors as they are
+   */
+  static from(error: unknown, fallbackMessage?: string): AuthError {
+    if (error instanceof AuthError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : fallbackMessage;
+    return new AuthError('UNKNOWN', message || fallbackMessage, { cause: error });
+  }
+}
+
+export function isAuthError(error: unknown): error is AuthError {
+  return error instanceof AuthError;
+}
+
+export function isAuthErrorCode(value: unknown): value is AuthErrorCode {
+  return typeof value === 'string' && AUTH_ERROR_CODES.includes(value as AuthErrorCode);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  } else if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Normalize the field errors a backend may return, either as a `{ field: message }` map
+ * or as a list of `{ field, message }` entries
+ */
+export function parseFieldErrors(errors: unknown): Record<string, string> | undefined {
+  if (Array.isArray(errors)) {
+    const entries = errors
+      .filter((entry) => entry && typeof entry.field === 'string')
+      .map((entry) => [entry.field, String(entry.message ?? '')]);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  } else if (errors && typeof errors === 'object') {
+    const entries = Object.entries(errors).map(([field, message]) => [
+      field,
+      Array.isArray(message) ? String(message[0]) : String(message),
+    ]);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,76 @@
+import { AuthError } from '@/services/authErrors';
+import { AuthResponse } from '@/services/authTypes';
+
+type AuthUser = NonNullable<AuthResponse['data']>['user'];
+
+// Why an account stopped being signed in on this device
+export type SignOutReason =
+  // The user signed out
+  | 'logout'
+  | 'accountDeleted'
+  // The server rejected the session, or it couldn't be renewed
+  | 'sessionExpired'
+  // Another tab signed out, or did while the app was in the background
+  | 'elsewhere';
+
+/**
+ * Auth lifecycle events and their payloads. Tokens are left out, so listeners such as analytics can't leak them.
+ */
+export interface AuthEventMap {
+  // A sign-in, sign-up or second factor completed, or another stored account was resumed, and it became the active one
+  signedIn: { user: AuthUser };
+  // The active account's session was removed from this device
+  signedOut: { uid: string; reason: SignOutReason };
+  // Another stored account became the active one, here or in another tab; `previousUid` is null after signing out.
+  // Listeners finish before the app shows the new account, so they can drop the previous account's data.
+  accountSwitched: { previousUid: string | null; user: AuthUser };
+  // The access token was renewed and stored; `expiresAt` is a millisecond timestamp, or null if unknown
+  tokenRefreshed: { uid: string; expiresAt: number | null };
+  // Renewing the session failed for good; a `signedOut` event follows once it's cleared
+  sessionExpired: { error: AuthError };
+  // The active account's stored profile changed
+  userUpdated: { user: AuthUser };
+  // An auth operation failed with an error shown to the user
+  authError: { error: AuthError };
+}
+
+export type AuthEventName = keyof AuthEventMap;
+
+export type AuthEventListener<E extends AuthEventName> = (payload: AuthEventMap[E]) => Promise<void> | void;
+
+/**
+ * Typed emitter for auth lifecycle events. Listeners run one at a time in the order they subscribed,
+ * and `emit` resolves once all of them have finished, so e.g. sign-out can wait for caches to be cleared.
+ */
+export class AuthEventEmitter {
+  // Each set holds listeners for its key's event
+  private listeners = new Map<AuthEventName, Set<AuthEventListener<any>>>();
+
+  /**
+   * Listen for an event; returns an unsubscribe function
+   */
+  on<E extends AuthEventName>(event: E, listener: AuthEventListener<E>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    this.listeners.set(event, listeners);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Call the event's listeners in order, waiting for each. A listener that fails is logged
+   * and doesn't stop the others, so one integration can't block signing out.
+   */
+  async emit<E extends AuthEventName>(event: E, payload: AuthEventMap[E]): Promise<void> {
+    // Copied, so listeners added or removed while emitting only apply to the next event
+    const listeners: AuthEventListener<E>[] = [...(this.listeners.get(event) ?? [])];
+    for (const listener of listeners) {
+      try {
+        await listener(payload);
+      } catch (error) {
+        console.error(`Auth event listener for "${event}" failed:`, error);
+      }
+    }
+  }
+}
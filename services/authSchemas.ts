@@ -0,0 +1,93 @@
+import * as z from 'zod';
+
+import {
+  ApiResponse,
+  AuthResponse,
+  AuthSession,
+  MfaChallenge,
+  MfaEnrollmentResponse,
+  SessionsResponse,
+  TotpEnrollmentResponse,
+  UserResponse,
+} from '@/services/authTypes';
+
+/**
+ * Runtime checks of auth data from the REST API and from storage, matching the types in `authTypes`
+ */
+
+type AuthUser = NonNullable<AuthResponse['data']>['user'];
+
+export const mfaMethodSchema = z.enum(['totp', 'sms']);
+
+export const mfaChallengeSchema: z.ZodType<MfaChallenge> = z.object({
+  challengeId: z.string(),
+  methods: z.array(mfaMethodSchema),
+  phoneHint: z.string().optional(),
+});
+
+export const userSchema: z.ZodType<AuthUser> = z.object({
+  uid: z.string(),
+  email: z.string(),
+  displayName: z.string().optional(),
+  emailVerified: z.boolean(),
+  mfaMethods: z.array(mfaMethodSchema).optional(),
+  roles: z.array(z.string()).optional(),
+  permissions: z.array(z.string()).optional(),
+});
+
+export const apiResponseSchema: z.ZodType<ApiResponse> = z.object({
+  success: z.boolean(),
+  message: z.string().optional(),
+  data: z.unknown().optional(),
+});
+
+// Session issued by a successful sign-in or token refresh
+export const authDataSchema: z.ZodType<NonNullable<AuthResponse['data']>> = z.object({
+  user: userSchema,
+  token: z.string().min(1),
+  // Left out when the backend keeps it in an httpOnly cookie
+  refreshToken: z.string().default(''),
+});
+
+export const authResponseSchema: z.ZodType<AuthResponse> = z.object({
+  success: z.boolean(),
+  status: z.enum(['authenticated', 'mfa_required']).optional(),
+  mfa: mfaChallengeSchema.optional(),
+  data: authDataSchema.optional(),
+  message: z.string().optional(),
+});
+
+export const userResponseSchema: z.ZodType<UserResponse> = z.object({
+  success: z.boolean(),
+  data: z.object({ user: userSchema }).optional(),
+  message: z.string().optional(),
+});
+
+export const totpEnrollmentResponseSchema: z.ZodType<TotpEnrollmentResponse> = z.object({
+  success: z.boolean(),
+  data: z.object({ secret: z.string(), otpauthUrl: z.string() }).optional(),
+  message: z.string().optional(),
+});
+
+export const mfaEnrollmentResponseSchema: z.ZodType<MfaEnrollmentResponse> = z.object({
+  success: z.boolean(),
+  data: z.object({ user: userSchema, backupCodes: z.array(z.string()) }).optional(),
+  message: z.string().optional(),
+});
+
+export const authSessionSchema: z.ZodType<AuthSession> = z.object({
+  id: z.string(),
+  deviceId: z.string().optional(),
+  deviceName: z.string(),
+  platform: z.string(),
+  ipAddress: z.string().optional(),
+  createdAt: z.string(),
+  lastSeenAt: z.string(),
+  current: z.boolean(),
+});
+
+export const sessionsResponseSchema: z.ZodType<SessionsResponse> = z.object({
+  success: z.boolean(),
+  data: z.object({ sessions: z.array(authSessionSchema) }).optional(),
+  message: z.string().optional(),
+});
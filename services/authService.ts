@@ -1,115 +1,158 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import Constants from 'expo-constants';
-import * as SecureStore from 'expo-secure-store';
-
-// API Response Types
-export interface AuthResponse {
-  success: boolean;
-  data?: {
-    user: {
-      uid: string;
-      email: string;
-      displayName?: string;
-      emailVerified: boolean;
-    };
-    token: string;
-    refreshToken: string;
-  };
-  message?: string;
-}
+import { ApiClient, apiClient, ApiClientOptions, AuthHandlers } from '@/services/apiClient';
+import { AuthError } from '@/services/authErrors';
+import { AuthEventEmitter } from '@/services/authEvents';
+import {
+  apiResponseSchema,
+  authResponseSchema,
+  mfaEnrollmentResponseSchema,
+  sessionsResponseSchema,
+  totpEnrollmentResponseSchema,
+  userResponseSchema,
+} from '@/services/authSchemas';
+import {
+  ApiResponse,
+  AuthBackend,
+  AuthResponse,
+  ChangeEmailRequest,
+  ChangePasswordRequest,
+  ConfirmMfaEnrollmentRequest,
+  ConfirmPasswordResetRequest,
+  DeleteAccountRequest,
+  DeviceInfo,
+  DisableMfaRequest,
+  LinkProviderRequest,
+  LoginRequest,
+  MfaEnrollmentResponse,
+  ProviderLoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  SessionHandlers,
+  SessionsResponse,
+  TotpEnrollmentResponse,
+  UpdateProfileRequest,
+  UserResponse,
+  VerifyMfaRequest,
+} from '@/services/authTypes';
+import { getDeviceInfo } from '@/services/deviceInfo';
+import { getActiveRefreshToken, getActiveToken } from '@/services/sessionStorage';
+import { tokenStore } from '@/services/tokenStore';
+import { getTokenExpiry } from '@/utils/jwt';
 
-export interface ApiResponse {
-  success: boolean;
-  message?: string;
-  data?: any;
+export interface AuthServiceOptions extends ApiClientOptions {
+  // Client to send requests through, e.g. the shared `apiClient`; built from the other options if left out
+  client?: ApiClient;
 }
 
-// Request Types
-export interface LoginRequest {
-  email: string;
-  password: string;
-}
+// Endpoints whose 401 responses mean bad credentials rather than an expired token
+const UNAUTHENTICATED_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/login/provider',
+  '/auth/login/provider/link',
+  '/auth/mfa/verify',
+  '/auth/mfa/sms/send',
+  '/auth/reset-password',
+  '/auth/reset-password/confirm',
+  '/auth/refresh',
+];
 
-export interface RegisterRequest {
-  email: string;
-  password: string;
-  displayName?: string;
-}
+// Let one browser tab at a time refresh, so the others pick up the refresh token it stores instead of spending the same one
+const withRefreshLock = <T>(refresh: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks.request('auth-refresh', refresh) : refresh();
 
-export interface ResetPasswordRequest {
-  email: string;
+/**
+ * Handlers that sign an `ApiClient`'s requests in as the active account and renew its token through `backend`
+ */
+export function createAuthHandlers(backend: AuthBackend): AuthHandlers {
+  return {
+    getToken: getActiveToken,
+    refreshToken: () => backend.refreshSession(),
+    publicEndpoints: UNAUTHENTICATED_ENDPOINTS,
+  };
 }
 
-class AuthService {
-  private api: AxiosInstance;
+/**
+ * Auth backend for the custom REST API, sending its requests through an `ApiClient`
+ */
+class AuthService implements AuthBackend {
+  readonly events = new AuthEventEmitter();
+  private client: ApiClient;
+  private sessionHandlers: SessionHandlers = {};
+  private refreshPromise: Promise<string> | null = null;
 
-  constructor() {
-    // Configure base URL from environment variables
-    const baseURL = Constants.expoConfig?.extra?.apiBaseUrl || process.env.API_BASE_URL || 'http://localhost:8080/api';
+  constructor(options: AuthServiceOptions = {}) {
+    const { client, ...clientOptions } = options;
+    this.client = client ?? new ApiClient(clientOptions);
 
-    this.api = axios.create({
-      baseURL,
-      timeout: 10000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    // A shared client is signed in by whoever owns it (see `authBackend.ts`), so only wire up our own
+    if (!client) {
+      this.client.setAuthHandlers(createAuthHandlers(this));
+    }
+  }
 
-    // Request interceptor to add auth token
-    this.api.interceptors.request.use(
-      async (config) => {
-        const token = await this.getStoredToken();
-        if (token) {
-          config.headers.Authorization = `Bearer ${token}`;
-        }
-        return config;
-      },
-      (error) => {
-        return Promise.reject(error);
-      }
-    );
+  /**
+   * Register callbacks used to persist refreshed tokens and to sign out when the session can't be renewed
+   */
+  setSessionHandlers(handlers: SessionHandlers): void {
+    this.sessionHandlers = handlers;
+  }
 
-    // Response interceptor for error handling
-    this.api.interceptors.response.use(
-      (response: AxiosResponse) => response,
-      async (error) => {
-        // Handle token expiration
-        if (error.response?.status === 401) {
-          await this.handleTokenExpiration();
-        }
-        return Promise.reject(this.formatError(error));
-      }
-    );
+  // Add this install's device info to requests that start a session
+  private async withDevice<T extends object>(body: T): Promise<T & { device: DeviceInfo }> {
+    return { ...body, device: await getDeviceInfo() };
   }
 
-  // Get stored token from secure storage
-  private async getStoredToken(): Promise<string | null> {
-    try {
-      const token = await SecureStore.getItemAsync('auth_token');
-      return token;
-    } catch {
-      return null;
+  // Handle token expiration, sharing a single refresh between all requests that failed with 401
+  private handleTokenExpiration(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = withRefreshLock(() => this.performTokenRefresh()).finally(() => {
+        this.refreshPromise = null;
+      });
     }
+    return this.refreshPromise;
   }
 
-  // Handle token expiration
-  private async handleTokenExpiration(): Promise<void> {
-    // This will be implemented in the auth context
-    console.warn('Token expired');
-  }
-
-  // Format API errors
-  private formatError(error: any): Error {
-    if (error.response?.data?.message) {
-      return new Error(error.response.data.message);
-    } else if (error.response?.data?.error) {
-      return new Error(error.response.data.error);
-    } else if (error.code === 'NETWORK_ERROR') {
-      return new Error('Network error. Please check your connection.');
-    } else if (error.code === 'ECONNABORTED') {
-      return new Error('Request timeout. Please try again.');
-    } else {
-      return new Error('An unexpected error occurred. Please try again.');
+  // Exchange the stored refresh token for a new session, signing out if the server rejects it
+  private async performTokenRefresh(): Promise<string> {
+    let storedRefreshToken: string | null = null;
+    try {
+      storedRefreshToken = await getActiveRefreshToken();
+      // With a refresh token cookie, the browser sends the token instead
+      if (!storedRefreshToken && !tokenStore.usesRefreshTokenCookie) {
+        throw new AuthError('SESSION_EXPIRED', 'No refresh token available');
+      }
+
+      const authResponse = await this.refreshToken(storedRefreshToken ?? undefined);
+      if (!authResponse.success || !authResponse.data?.token) {
+        throw new AuthError('SESSION_EXPIRED', authResponse.message);
+      }
+
+      const { token, user } = authResponse.data;
+      await this.sessionHandlers.onTokenRefreshed?.(authResponse);
+      await this.events.emit('tokenRefreshed', { uid: user.uid, expiresAt: getTokenExpiry(token) });
+      return token;
+    } catch (error) {
+      const authError = AuthError.from(error);
+      // Keep the session when the server couldn't be reached; the refresh is retried with the next request
+      if (authError.isRetryable) {
+        throw authError;
+      }
+
+      // Another tab or client spent the same single-use refresh token first and stored the one it got back
+      const currentRefreshToken = await getActiveRefreshToken().catch(() => null);
+      if (currentRefreshToken && currentRefreshToken !== storedRefreshToken) {
+        return this.performTokenRefresh();
+      }
+
+      // The server rejecting the refresh token means the session is over
+      const expiredError =
+        authError.code === 'UNAUTHORIZED' || authError.code === 'FORBIDDEN'
+          ? new AuthError('SESSION_EXPIRED', undefined, { status: authError.status, cause: error })
+          : authError;
+
+      await this.events.emit('sessionExpired', { error: expiredError });
+      await this.sessionHandlers.onSessionExpired?.();
+      throw expiredError;
     }
   }
 
@@ -117,93 +160,210 @@ class AuthService {
    * Authenticate user with email and password
    */
   async login(credentials: LoginRequest): Promise<AuthResponse> {
-    try {
-      const response = await this.api.post<AuthResponse>('/auth/login', credentials);
-      return response.data;
-    } catch (error) {
-      throw this.formatError(error);
-    }
+    return this.client.post('/auth/login', await this.withDevice(credentials), authResponseSchema, { idempotent: true });
   }
 
   /**
    * Register a new user
    */
   async register(userData: RegisterRequest): Promise<AuthResponse> {
-    try {
-      const response = await this.api.post<AuthResponse>('/auth/register', userData);
-      return response.data;
-    } catch (error) {
-      throw this.formatError(error);
-    }
+    return this.client.post('/auth/register', await this.withDevice(userData), authResponseSchema, { idempotent: true });
+  }
+
+  /**
+   * Sign in, or sign up, with a Google or Apple credential.
+   * Fails with ACCOUNT_EXISTS when the email belongs to an account the provider isn't linked to.
+   */
+  async loginWithProvider(credential: ProviderLoginRequest): Promise<AuthResponse> {
+    return this.client.post('/auth/login/provider', await this.withDevice(credential), authResponseSchema, {
+      idempotent: true,
+    });
+  }
+
+  /**
+   * Link a provider to the existing account with the same email and sign in
+   */
+  async linkProvider(linkData: LinkProviderRequest): Promise<AuthResponse> {
+    return this.client.post('/auth/login/provider/link', await this.withDevice(linkData), authResponseSchema, {
+      idempotent: true,
+    });
+  }
+
+  /**
+   * Complete a sign-in that returned "mfa_required" with a TOTP, SMS or backup code
+   */
+  async verifyMfa(verifyData: VerifyMfaRequest): Promise<AuthResponse> {
+    return this.client.post('/auth/mfa/verify', verifyData, authResponseSchema, { idempotent: true });
+  }
+
+  /**
+   * Text the code for a pending MFA challenge to the enrolled phone number
+   */
+  async sendMfaSmsCode(challengeId: string): Promise<ApiResponse> {
+    return this.client.post('/auth/mfa/sms/send', { challengeId }, apiResponseSchema);
   }
 
   /**
    * Send password reset email
    */
   async resetPassword(emailData: ResetPasswordRequest): Promise<ApiResponse> {
-    try {
-      const response = await this.api.post<ApiResponse>('/auth/reset-password', emailData);
-      return response.data;
-    } catch (error) {
-      throw this.formatError(error);
-    }
+    return this.client.post('/auth/reset-password', emailData, apiResponseSchema);
+  }
+
+  /**
+   * Set a new password using the token from the reset email
+   */
+  async confirmPasswordReset(resetData: ConfirmPasswordResetRequest): Promise<ApiResponse> {
+    return this.client.post('/auth/reset-password/confirm', resetData, apiResponseSchema);
   }
 
   /**
-   * Refresh authentication token
+   * Refresh authentication token; leave out the refresh token when the backend keeps it in a cookie
    */
-  async refreshToken(refreshToken: string): Promise<AuthResponse> {
+  async refreshToken(refreshToken?: string): Promise<AuthResponse> {
     try {
-      const response = await this.api.post<AuthResponse>('/auth/refresh', {
-        refreshToken,
+      // The refresh token rotates, so a retry after a lost response must get the first response back
+      return await this.client.post('/auth/refresh', refreshToken ? { refreshToken } : {}, authResponseSchema, {
+        idempotent: true,
       });
-      return response.data;
     } catch (error) {
-      throw this.formatError(error);
+      const authError = AuthError.from(error);
+      // A rejected refresh token means the session is over, not that the user mistyped something
+      if (authError.code === 'INVALID_CREDENTIALS') {
+        throw new AuthError('SESSION_EXPIRED', undefined, { status: authError.status, cause: error });
+      }
+      throw authError;
     }
   }
 
+  /**
+   * Refresh the session using the stored refresh token.
+   * Concurrent callers share the same in-flight refresh request.
+   */
+  async refreshSession(): Promise<string> {
+    return this.handleTokenExpiration();
+  }
+
   /**
    * Logout user (invalidate token on server)
    */
   async logout(): Promise<ApiResponse> {
-    try {
-      const response = await this.api.post<ApiResponse>('/auth/logout');
-      return response.data;
-    } catch (error) {
-      throw this.formatError(error);
-    }
+    return this.client.post('/auth/logout', undefined, apiResponseSchema);
+  }
+
+  /**
+   * Make requests for another signed-in account.
+   * Requests always use the active account's stored tokens, so there is nothing else to switch.
+   */
+  async switchAccount(_uid: string): Promise<void> {}
+
+  /**
+   * List the devices signed in to the current user's account
+   */
+  async getSessions(): Promise<SessionsResponse> {
+    return this.client.get('/auth/sessions', sessionsResponseSchema);
+  }
+
+  /**
+   * Sign out one of the account's sessions, e.g. a lost device
+   */
+  async revokeSession(sessionId: string): Promise<ApiResponse> {
+    return this.client.delete(`/auth/sessions/${encodeURIComponent(sessionId)}`, apiResponseSchema);
+  }
+
+  /**
+   * Sign out every session except the current one
+   */
+  async revokeOtherSessions(): Promise<ApiResponse> {
+    return this.client.delete('/auth/sessions', apiResponseSchema);
   }
 
   /**
    * Verify email address
    */
   async verifyEmail(token: string): Promise<ApiResponse> {
-    try {
-      const response = await this.api.post<ApiResponse>('/auth/verify-email', {
-        token,
-      });
-      return response.data;
-    } catch (error) {
-      throw this.formatError(error);
-    }
+    return this.client.post('/auth/verify-email', { token }, apiResponseSchema);
+  }
+
+  /**
+   * Send a new verification email to the signed-in user, or to `email` when signed out
+   */
+  async resendVerificationEmail(email?: string): Promise<ApiResponse> {
+    return this.client.post('/auth/resend-verification', email ? { email } : undefined, apiResponseSchema);
   }
 
   /**
    * Get current user profile
    */
-  async getCurrentUser(): Promise<AuthResponse['data']> {
-    try {
-      const response = await this.api.get<AuthResponse>('/auth/me');
-      return response.data.data;
-    } catch (error) {
-      throw this.formatError(error);
-    }
+  async getCurrentUser(): Promise<UserResponse['data']> {
+    // Restoring the session on launch can't wait for the connection to come back
+    const response = await this.client.get('/auth/me', userResponseSchema, { failFast: true });
+    return response.data;
+  }
+
+  /**
+   * Update the current user's profile
+   */
+  async updateProfile(profileData: UpdateProfileRequest): Promise<UserResponse> {
+    return this.client.patch('/auth/me', profileData, userResponseSchema);
+  }
+
+  /**
+   * Change password after confirming the current one
+   */
+  async changePassword(passwordData: ChangePasswordRequest): Promise<ApiResponse> {
+    return this.client.post('/auth/change-password', passwordData, apiResponseSchema);
+  }
+
+  /**
+   * Change email address after confirming the password; the new address must be verified again
+   */
+  async changeEmail(emailData: ChangeEmailRequest): Promise<UserResponse> {
+    return this.client.post('/auth/change-email', emailData, userResponseSchema);
+  }
+
+  /**
+   * Permanently delete the current user's account after confirming the password
+   */
+  async deleteAccount(accountData: DeleteAccountRequest): Promise<ApiResponse> {
+    return this.client.delete('/auth/me', apiResponseSchema, { body: accountData });
+  }
+
+  /**
+   * Generate a TOTP secret for the current user to add to an authenticator app
+   */
+  async startTotpEnrollment(): Promise<TotpEnrollmentResponse> {
+    return this.client.post('/auth/mfa/totp/enroll', undefined, totpEnrollmentResponseSchema);
+  }
+
+  /**
+   * Text a confirmation code to the phone number being enrolled
+   */
+  async startSmsEnrollment(phoneNumber: string): Promise<ApiResponse> {
+    return this.client.post('/auth/mfa/sms/enroll', { phoneNumber }, apiResponseSchema);
+  }
+
+  /**
+   * Finish enrolling a second factor with a code from it, receiving the backup codes
+   */
+  async confirmMfaEnrollment(enrollmentData: ConfirmMfaEnrollmentRequest): Promise<MfaEnrollmentResponse> {
+    return this.client.post(
+      `/auth/mfa/${enrollmentData.method}/confirm`,
+      { code: enrollmentData.code },
+      mfaEnrollmentResponseSchema
+    );
+  }
+
+  /**
+   * Turn off multi-factor authentication after confirming the password
+   */
+  async disableMfa(disableData: DisableMfaRequest): Promise<UserResponse> {
+    return this.client.post('/auth/mfa/disable', disableData, userResponseSchema);
   }
 }
 
-// Create and export singleton instance
-export const authService = new AuthService();
+// Create and export singleton instance, sharing the app's API client
+export const authService = new AuthService({ client: apiClient });
 
 // Export class for testing purposes
-export { AuthService };
\ No newline at end of file
+export { AuthService };
@@ -0,0 +1,218 @@
+import { AuthEventEmitter } from '@/services/authEvents';
+
+// Second factors a user can enroll
+export type MfaMethod = 'totp' | 'sms';
+
+// Pending second sign-in step for accounts with multi-factor authentication
+export interface MfaChallenge {
+  challengeId: string;
+  methods: MfaMethod[];
+  // Masked phone number the SMS code is sent to, e.g. "•••• 4567"
+  phoneHint?: string;
+}
+
+// API Response Types
+export interface AuthResponse {
+  success: boolean;
+  // "mfa_required" when the credentials were correct but a second factor is needed; no tokens are issued yet
+  status?: 'authenticated' | 'mfa_required';
+  mfa?: MfaChallenge;
+  data?: {
+    user: {
+      uid: string;
+      email: string;
+      displayName?: string;
+      emailVerified: boolean;
+      mfaMethods?: MfaMethod[];
+      // Granted by the backend; the access token may carry more as claims
+      roles?: string[];
+      permissions?: string[];
+    };
+    token: string;
+    refreshToken: string;
+  };
+  message?: string;
+}
+
+// Response for endpoints that return the updated user profile
+export interface UserResponse {
+  success: boolean;
+  data?: {
+    user: NonNullable<AuthResponse['data']>['user'];
+  };
+  message?: string;
+}
+
+// Secret for setting up an authenticator app
+export interface TotpEnrollmentResponse {
+  success: boolean;
+  data?: {
+    secret: string;
+    // otpauth:// URL shown as a QR code
+    otpauthUrl: string;
+  };
+  message?: string;
+}
+
+// Result of finishing MFA enrollment
+export interface MfaEnrollmentResponse {
+  success: boolean;
+  data?: {
+    user: NonNullable<AuthResponse['data']>['user'];
+    // Single-use codes for signing in without the second factor; only returned once
+    backupCodes: string[];
+  };
+  message?: string;
+}
+
+// Device signed in to the account, as listed by the backend
+export interface AuthSession {
+  id: string;
+  deviceId?: string;
+  deviceName: string;
+  platform: string;
+  ipAddress?: string;
+  // ISO 8601 timestamps
+  createdAt: string;
+  lastSeenAt: string;
+  // Whether this is the session the request was made from
+  current: boolean;
+}
+
+export interface SessionsResponse {
+  success: boolean;
+  data?: {
+    sessions: AuthSession[];
+  };
+  message?: string;
+}
+
+export interface ApiResponse {
+  success: boolean;
+  message?: string;
+  data?: unknown;
+}
+
+// Request Types
+
+// Identifies this app install, sent when signing in so the backend can tell sessions apart
+export interface DeviceInfo {
+  deviceId: string;
+  deviceName: string;
+  platform: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  displayName?: string;
+}
+
+// Identity providers supported for social sign-in
+export type SocialProvider = 'google' | 'apple';
+
+// Credential from a provider's sign-in flow, verified by the backend
+export interface ProviderLoginRequest {
+  provider: SocialProvider;
+  idToken: string;
+  // Raw nonce the ID token was requested with (Apple)
+  nonce?: string;
+  // Apple only shares the user's name on the first sign-in
+  displayName?: string;
+}
+
+// Link a provider to the existing account with the same email, confirming its password
+export interface LinkProviderRequest {
+  email: string;
+  password: string;
+  credential: ProviderLoginRequest;
+}
+
+export interface VerifyMfaRequest {
+  challengeId: string;
+  code: string;
+  method: MfaMethod | 'backup_code';
+}
+
+export interface ConfirmMfaEnrollmentRequest {
+  method: MfaMethod;
+  code: string;
+}
+
+export interface DisableMfaRequest {
+  password: string;
+}
+
+export interface ResetPasswordRequest {
+  email: string;
+}
+
+export interface ConfirmPasswordResetRequest {
+  token: string;
+  password: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangeEmailRequest {
+  newEmail: string;
+  password: string;
+}
+
+export interface UpdateProfileRequest {
+  displayName?: string;
+}
+
+export interface DeleteAccountRequest {
+  password: string;
+}
+
+// Callbacks the auth context registers to react to session changes made by the backend
+export interface SessionHandlers {
+  onTokenRefreshed?: (authResponse: AuthResponse) => Promise<void> | void;
+  onSessionExpired?: () => Promise<void> | void;
+}
+
+/**
+ * Operations every authentication backend (custom REST API, Firebase Auth, ...) must support.
+ * `AuthContext` only talks to this interface, so backends can be swapped through configuration.
+ */
+export interface AuthBackend {
+  login(credentials: LoginRequest): Promise<AuthResponse>;
+  register(userData: RegisterRequest): Promise<AuthResponse>;
+  loginWithProvider(credential: ProviderLoginRequest): Promise<AuthResponse>;
+  linkProvider(linkData: LinkProviderRequest): Promise<AuthResponse>;
+  verifyMfa(verifyData: VerifyMfaRequest): Promise<AuthResponse>;
+  sendMfaSmsCode(challengeId: string): Promise<ApiResponse>;
+  resetPassword(emailData: ResetPasswordRequest): Promise<ApiResponse>;
+  confirmPasswordReset(resetData: ConfirmPasswordResetRequest): Promise<ApiResponse>;
+  refreshToken(refreshToken?: string): Promise<AuthResponse>;
+  refreshSession(): Promise<string>;
+  logout(): Promise<ApiResponse>;
+  switchAccount(uid: string): Promise<void>;
+  getSessions(): Promise<SessionsResponse>;
+  revokeSession(sessionId: string): Promise<ApiResponse>;
+  revokeOtherSessions(): Promise<ApiResponse>;
+  verifyEmail(token: string): Promise<ApiResponse>;
+  resendVerificationEmail(email?: string): Promise<ApiResponse>;
+  getCurrentUser(): Promise<UserResponse['data']>;
+  updateProfile(profileData: UpdateProfileRequest): Promise<UserResponse>;
+  changePassword(passwordData: ChangePasswordRequest): Promise<ApiResponse>;
+  changeEmail(emailData: ChangeEmailRequest): Promise<UserResponse>;
+  deleteAccount(accountData: DeleteAccountRequest): Promise<ApiResponse>;
+  startTotpEnrollment(): Promise<TotpEnrollmentResponse>;
+  startSmsEnrollment(phoneNumber: string): Promise<ApiResponse>;
+  confirmMfaEnrollment(enrollmentData: ConfirmMfaEnrollmentRequest): Promise<MfaEnrollmentResponse>;
+  disableMfa(disableData: DisableMfaRequest): Promise<UserResponse>;
+  setSessionHandlers(handlers: SessionHandlers): void;
+  // Auth lifecycle events: token refreshes and expiry from the backend, the rest from `AuthProvider`
+  readonly events: AuthEventEmitter;
+}
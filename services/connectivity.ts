@@ -0,0 +1,96 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+export type ConnectivityListener = (isConnected: boolean) => void;
+
+/**
+ * Reports changes to whether the device is online. NetInfo in the app; tests use `MockConnectivitySource`.
+ */
+export interface ConnectivitySource {
+  // Start listening, calling `listener` with the current status and every change; returns an unsubscribe function
+  subscribe(listener: ConnectivityListener): () => void;
+}
+
+// Connected to a network whose internet access hasn't been ruled out
+const isOnline = (state: NetInfoState) => !!state.isConnected && state.isInternetReachable !== false;
+
+export const netInfoSource: ConnectivitySource = {
+  subscribe: (listener) => NetInfo.addEventListener((state) => listener(isOnline(state))),
+};
+
+/**
+ * Tracks whether the device is online, for React through `ConnectivityProvider`
+ * and for code outside React such as the API client
+ */
+export class ConnectivityMonitor {
+  private source: ConnectivitySource;
+  private listeners = new Set<ConnectivityListener>();
+  private current: boolean | null = null;
+  private isStarted = false;
+
+  constructor(source: ConnectivitySource) {
+    this.source = source;
+  }
+
+  /**
+   * Whether the device is online, or null until the first check finishes
+   */
+  get isConnected(): boolean | null {
+    this.start();
+    return this.current;
+  }
+
+  /**
+   * Listen for changes to the online status
+   */
+  subscribe(listener: ConnectivityListener): () => void {
+    this.start();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolve with true once the device is online, or false if it's still offline after `timeoutMs`
+   */
+  waitUntilConnected(timeoutMs: number): Promise<boolean> {
+    // An unknown status isn't treated as offline
+    if (this.isConnected !== false) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      const unsubscribe = this.subscribe((isConnected) => {
+        if (isConnected) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(true);
+        }
+      });
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(false);
+      }, timeoutMs);
+    });
+  }
+
+  // Listen to the source on first use, so nothing subscribes to NetInfo before the app needs it
+  private start(): void {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+    this.source.subscribe((isConnected) => {
+      if (isConnected === this.current) {
+        return;
+      }
+      this.current = isConnected;
+      this.listeners.forEach((listener) => listener(isConnected));
+    });
+  }
+}
+
+/**
+ * Connectivity of the device the app runs on
+ */
+export const connectivity = new ConnectivityMonitor(netInfoSource);
@@ -0,0 +1,49 @@
+import * as Crypto from 'expo-crypto';
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+
+import { DeviceInfo } from '@/services/authTypes';
+import { tokenStore } from '@/services/tokenStore';
+
+// Random id generated on first use, so sessions from this install can be recognized
+const DEVICE_ID_KEY = 'device_id';
+
+let deviceIdPromise: Promise<string> | null = null;
+
+async function loadDeviceId(): Promise<string> {
+  const storedId = await tokenStore.getItem(DEVICE_ID_KEY);
+  if (storedId) {
+    return storedId;
+  }
+
+  const deviceId = Crypto.randomUUID();
+  await tokenStore.setItem(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+}
+
+/**
+ * Stable id of this app install
+ */
+export function getDeviceId(): Promise<string> {
+  if (!deviceIdPromise) {
+    deviceIdPromise = loadDeviceId().catch((error) => {
+      deviceIdPromise = null;
+      throw error;
+    });
+  }
+  return deviceIdPromise;
+}
+
+/**
+ * Name the user gave the device (e.g. "Alex's iPhone"), falling back to its model
+ */
+export function getDeviceName(): string {
+  return Device.deviceName ?? Device.modelName ?? 'Unknown device';
+}
+
+/**
+ * Everything the backend needs to tell this install's sessions apart
+ */
+export async function getDeviceInfo(): Promise<DeviceInfo> {
+  return { deviceId: await getDeviceId(), deviceName: getDeviceName(), platform: Platform.OS };
+}
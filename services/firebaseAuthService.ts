@@ -0,0 +1,605 @@
+import { FirebaseError } from 'firebase/app';
+import {
+  applyActionCode,
+  confirmPasswordReset,
+  createUserWithEmailAndPassword,
+  deleteUser,
+  EmailAuthProvider,
+  getMultiFactorResolver,
+  GoogleAuthProvider,
+  linkWithCredential,
+  multiFactor,
+  MultiFactorError,
+  MultiFactorResolver,
+  OAuthCredential,
+  OAuthProvider,
+  reauthenticateWithCredential,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signOut,
+  TotpMultiFactorGenerator,
+  TotpSecret,
+  updatePassword,
+  updateCurrentUser,
+  updateProfile,
+  User as FirebaseUser,
+  UserCredential,
+  verifyBeforeUpdateEmail,
+} from 'firebase/auth';
+
+import { getFirebaseAuth } from '@/config/firebase';
+import { MFA_ISSUER } from '@/constants/Auth';
+import { AuthError, AuthErrorCode } from '@/services/authErrors';
+import { AuthEventEmitter } from '@/services/authEvents';
+import { getDeviceInfo } from '@/services/deviceInfo';
+import {
+  ApiResponse,
+  AuthBackend,
+  AuthResponse,
+  ChangeEmailRequest,
+  ChangePasswordRequest,
+  ConfirmMfaEnrollmentRequest,
+  ConfirmPasswordResetRequest,
+  DeleteAccountRequest,
+  DisableMfaRequest,
+  LinkProviderRequest,
+  LoginRequest,
+  MfaEnrollmentResponse,
+  MfaMethod,
+  ProviderLoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  SessionHandlers,
+  SessionsResponse,
+  TotpEnrollmentResponse,
+  UpdateProfileRequest,
+  UserResponse,
+  VerifyMfaRequest,
+} from '@/services/authTypes';
+import { getTokenExpiry } from '@/utils/jwt';
+import { getAccessClaims } from '@/utils/permissions';
+
+// Auth error codes for common Firebase Auth error codes
+const FIREBASE_ERROR_CODES: Record<string, AuthErrorCode> = {
+  'auth/invalid-credential': 'INVALID_CREDENTIALS',
+  'auth/wrong-password': 'INVALID_CREDENTIALS',
+  'auth/user-not-found': 'INVALID_CREDENTIALS',
+  'auth/user-disabled': 'FORBIDDEN',
+  'auth/email-already-in-use': 'EMAIL_IN_USE',
+  'auth/account-exists-with-different-credential': 'ACCOUNT_EXISTS',
+  'auth/credential-already-in-use': 'EMAIL_IN_USE',
+  'auth/weak-password': 'VALIDATION',
+  'auth/invalid-email': 'VALIDATION',
+  'auth/too-many-requests': 'RATE_LIMITED',
+  'auth/network-request-failed': 'NETWORK',
+  'auth/timeout': 'TIMEOUT',
+  'auth/invalid-action-code': 'INVALID_TOKEN',
+  'auth/expired-action-code': 'EXPIRED_TOKEN',
+  'auth/user-token-expired': 'SESSION_EXPIRED',
+  'auth/requires-recent-login': 'UNAUTHORIZED',
+  'auth/invalid-verification-code': 'INVALID_CREDENTIALS',
+  'auth/missing-multi-factor-session': 'EXPIRED_TOKEN',
+  'auth/internal-error': 'SERVER',
+};
+
+// Firebase needs a reCAPTCHA verifier for SMS codes, which isn't available in React Native
+const SMS_MFA_UNSUPPORTED = 'Text message codes are not supported with Firebase Auth. Use an authenticator app instead.';
+
+// Revoking refresh tokens needs the Admin SDK, so it has to happen on a server
+const SESSION_REVOCATION_UNSUPPORTED = 'Signing out other devices is not supported with Firebase Auth.';
+
+// Form fields the Firebase validation errors relate to
+const FIREBASE_FIELD_ERRORS: Record<string, Record<string, string>> = {
+  'auth/weak-password': { password: 'Password is too weak.' },
+  'auth/invalid-email': { email: 'Please enter a valid email address.' },
+  'auth/invalid-verification-code': { code: 'Incorrect code.' },
+};
+
+/**
+ * Auth backend for Firebase Authentication.
+ * Token refresh is handled by the Firebase SDK; the ID token is exposed as the session token.
+ * The SDK persists its current user (in AsyncStorage on iOS and Android, see `config/firebaseAuth.ts`), so the active
+ * account survives a restart. Other accounts are only kept in memory and have to sign in again after one.
+ */
+class FirebaseAuthService implements AuthBackend {
+  readonly events = new AuthEventEmitter();
+  private sessionHandlers: SessionHandlers = {};
+  // Resolvers for sign-ins waiting on a second factor, keyed by challenge id
+  private mfaResolvers = new Map<string, MultiFactorResolver>();
+  private pendingTotpSecret: TotpSecret | null = null;
+  // Users signed in since launch, so the current user can be switched between them
+  private signedInUsers = new Map<string, FirebaseUser>();
+
+  // Format Firebase errors into typed auth errors
+  private formatError(error: any): AuthError {
+    if (error instanceof FirebaseError) {
+      const code = FIREBASE_ERROR_CODES[error.code] ?? 'UNKNOWN';
+      const fieldErrors = FIREBASE_FIELD_ERRORS[error.code];
+      const email = typeof error.customData?.email === 'string' ? error.customData.email : undefined;
+      // Firebase messages are developer-facing, so use the standard message for known codes
+      return new AuthError(code, code === 'UNKNOWN' ? error.message : undefined, { fieldErrors, email, cause: error });
+    }
+    return AuthError.from(error);
+  }
+
+  // Build the backend-agnostic auth response for a signed-in Firebase user
+  private async toAuthResponse(user: FirebaseUser, forceRefresh = false): Promise<AuthResponse> {
+    this.signedInUsers.set(user.uid, user);
+    // Roles and permissions are custom claims set with the Admin SDK
+    const idToken = await user.getIdTokenResult(forceRefresh);
+    return {
+      success: true,
+      data: {
+        user: {
+          uid: user.uid,
+          email: user.email ?? '',
+          displayName: user.displayName ?? undefined,
+          emailVerified: user.emailVerified,
+          mfaMethods: this.getMfaMethods(user),
+          ...getAccessClaims(idToken.claims),
+        },
+        token: idToken.token,
+        refreshToken: user.refreshToken,
+      },
+    };
+  }
+
+  private getMfaMethods(user: FirebaseUser): MfaMethod[] {
+    return multiFactor(user).enrolledFactors.map((factor) => (factor.factorId === 'phone' ? 'sms' : 'totp'));
+  }
+
+  // Run a sign-in, turning Firebase's multi-factor error into an "mfa_required" response
+  private async signInWithMfa(signIn: () => Promise<UserCredential>): Promise<AuthResponse> {
+    try {
+      const { user } = await signIn();
+      return await this.toAuthResponse(user);
+    } catch (error) {
+      if (!(error instanceof FirebaseError) || error.code !== 'auth/multi-factor-auth-required') {
+        throw error;
+      }
+
+      const resolver = getMultiFactorResolver(getFirebaseAuth(), error as MultiFactorError);
+      const challengeId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+      this.mfaResolvers.set(challengeId, resolver);
+
+      return {
+        success: true,
+        status: 'mfa_required',
+        mfa: {
+          challengeId,
+          methods: resolver.hints.map((hint) => (hint.factorId === 'phone' ? 'sms' : 'totp')),
+        },
+      };
+    }
+  }
+
+  // Get the signed-in user once the SDK has restored any persisted session
+  private async requireCurrentUser(): Promise<FirebaseUser> {
+    const auth = getFirebaseAuth();
+    await auth.authStateReady();
+
+    if (!auth.currentUser) {
+      throw new AuthError('UNAUTHORIZED', 'No authenticated user');
+    }
+    return auth.currentUser;
+  }
+
+  // Confirm the user's password before sensitive account changes
+  private async reauthenticate(password: string): Promise<FirebaseUser> {
+    const user = await this.requireCurrentUser();
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email ?? '', password));
+    return user;
+  }
+
+  // Convert a provider credential into the matching Firebase credential
+  private toFirebaseCredential(credential: ProviderLoginRequest): OAuthCredential {
+    if (credential.provider === 'apple') {
+      return new OAuthProvider('apple.com').credential({ idToken: credential.idToken, rawNonce: credential.nonce });
+    }
+    return GoogleAuthProvider.credential(credential.idToken);
+  }
+
+  setSessionHandlers(handlers: SessionHandlers): void {
+    this.sessionHandlers = handlers;
+  }
+
+  /**
+   * Authenticate user with email and password
+   */
+  async login(credentials: LoginRequest): Promise<AuthResponse> {
+    try {
+      return await this.signInWithMfa(() =>
+        signInWithEmailAndPassword(getFirebaseAuth(), credentials.email, credentials.password)
+      );
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Register a new user and send the verification email
+   */
+  async register(userData: RegisterRequest): Promise<AuthResponse> {
+    try {
+      const { user } = await createUserWithEmailAndPassword(getFirebaseAuth(), userData.email, userData.password);
+
+      if (userData.displayName) {
+        await updateProfile(user, { displayName: userData.displayName });
+      }
+      await sendEmailVerification(user);
+
+      return await this.toAuthResponse(user);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Sign in, or sign up, with a Google or Apple credential
+   */
+  async loginWithProvider(credential: ProviderLoginRequest): Promise<AuthResponse> {
+    try {
+      const authResponse = await this.signInWithMfa(() =>
+        signInWithCredential(getFirebaseAuth(), this.toFirebaseCredential(credential))
+      );
+
+      const user = getFirebaseAuth().currentUser;
+      if (authResponse.data && user && credential.displayName && !user.displayName) {
+        await updateProfile(user, { displayName: credential.displayName });
+        return await this.toAuthResponse(user);
+      }
+      return authResponse;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Sign in to the existing account with its password and link the provider to it
+   */
+  async linkProvider(linkData: LinkProviderRequest): Promise<AuthResponse> {
+    try {
+      const { user } = await signInWithEmailAndPassword(getFirebaseAuth(), linkData.email, linkData.password);
+      await linkWithCredential(user, this.toFirebaseCredential(linkData.credential));
+      return await this.toAuthResponse(user);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Complete a sign-in that returned "mfa_required" with a code from the authenticator app
+   */
+  async verifyMfa(verifyData: VerifyMfaRequest): Promise<AuthResponse> {
+    try {
+      const resolver = this.mfaResolvers.get(verifyData.challengeId);
+      if (!resolver) {
+        throw new AuthError('EXPIRED_TOKEN', 'This sign-in attempt has expired. Please sign in again.');
+      } else if (verifyData.method === 'sms') {
+        throw new AuthError('VALIDATION', SMS_MFA_UNSUPPORTED);
+      } else if (verifyData.method === 'backup_code') {
+        throw new AuthError('VALIDATION', 'Firebase Auth does not support backup codes.');
+      }
+
+      const hint = resolver.hints.find((factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+      if (!hint) {
+        throw new AuthError('VALIDATION', 'No authenticator app is enrolled for this account.');
+      }
+
+      const { user } = await resolver.resolveSignIn(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, verifyData.code));
+      this.mfaResolvers.delete(verifyData.challengeId);
+      return await this.toAuthResponse(user);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * SMS codes need a reCAPTCHA verifier, so they aren't supported
+   */
+  async sendMfaSmsCode(_challengeId: string): Promise<ApiResponse> {
+    throw new AuthError('VALIDATION', SMS_MFA_UNSUPPORTED);
+  }
+
+  /**
+   * Send password reset email
+   */
+  async resetPassword(emailData: ResetPasswordRequest): Promise<ApiResponse> {
+    try {
+      await sendPasswordResetEmail(getFirebaseAuth(), emailData.email);
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Set a new password using the action code from the reset email
+   */
+  async confirmPasswordReset(resetData: ConfirmPasswordResetRequest): Promise<ApiResponse> {
+    try {
+      await confirmPasswordReset(getFirebaseAuth(), resetData.token, resetData.password);
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Refresh authentication token.
+   * The Firebase SDK keeps its own refresh token, so the argument is unused.
+   */
+  async refreshToken(_refreshToken?: string): Promise<AuthResponse> {
+    try {
+      const user = await this.requireCurrentUser();
+      return await this.toAuthResponse(user, true);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Force a new ID token, signing out if the Firebase session is no longer valid
+   */
+  async refreshSession(): Promise<string> {
+    try {
+      const authResponse = await this.refreshToken();
+      const { token, user } = authResponse.data!;
+      await this.sessionHandlers.onTokenRefreshed?.(authResponse);
+      await this.events.emit('tokenRefreshed', { uid: user.uid, expiresAt: getTokenExpiry(token) });
+      return token;
+    } catch (error) {
+      const authError = AuthError.from(error);
+      // Keep the session when Firebase couldn't be reached, e.g. on an offline launch; the refresh is tried again later
+      if (authError.isRetryable) {
+        throw authError;
+      }
+
+      await this.events.emit('sessionExpired', { error: authError });
+      await this.sessionHandlers.onSessionExpired?.();
+      throw authError;
+    }
+  }
+
+  /**
+   * Logout user
+   */
+  async logout(): Promise<ApiResponse> {
+    try {
+      const auth = getFirebaseAuth();
+      if (auth.currentUser) {
+        this.signedInUsers.delete(auth.currentUser.uid);
+      }
+      await signOut(auth);
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Make another account signed in since launch the current Firebase user
+   */
+  async switchAccount(uid: string): Promise<void> {
+    try {
+      const auth = getFirebaseAuth();
+      await auth.authStateReady();
+      if (auth.currentUser?.uid === uid) {
+        return;
+      }
+
+      const user = this.signedInUsers.get(uid);
+      if (!user) {
+        throw new AuthError('SESSION_EXPIRED', 'Please sign in to this account again.');
+      }
+      await updateCurrentUser(auth, user);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Firebase Auth doesn't let clients list a user's sessions, so only this device is returned
+   */
+  async getSessions(): Promise<SessionsResponse> {
+    try {
+      const user = await this.requireCurrentUser();
+      const device = await getDeviceInfo();
+      const now = new Date().toISOString();
+      const signedInAt = user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime).toISOString() : now;
+
+      return {
+        success: true,
+        data: { sessions: [{ id: device.deviceId, ...device, createdAt: signedInAt, lastSeenAt: now, current: true }] },
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Revoking sessions needs the Firebase Admin SDK, so it isn't supported
+   */
+  async revokeSession(_sessionId: string): Promise<ApiResponse> {
+    throw new AuthError('VALIDATION', SESSION_REVOCATION_UNSUPPORTED);
+  }
+
+  /**
+   * Revoking sessions needs the Firebase Admin SDK, so it isn't supported
+   */
+  async revokeOtherSessions(): Promise<ApiResponse> {
+    throw new AuthError('VALIDATION', SESSION_REVOCATION_UNSUPPORTED);
+  }
+
+  /**
+   * Verify email address using the action code from the verification link
+   */
+  async verifyEmail(token: string): Promise<ApiResponse> {
+    try {
+      await applyActionCode(getFirebaseAuth(), token);
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Send a new verification email to the signed-in user.
+   * Firebase can only send verification emails to a signed-in user, so `email` is ignored.
+   */
+  async resendVerificationEmail(_email?: string): Promise<ApiResponse> {
+    try {
+      await sendEmailVerification(await this.requireCurrentUser());
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Get current user profile, reloading it so emailVerified is up to date
+   */
+  async getCurrentUser(): Promise<AuthResponse['data']> {
+    try {
+      const user = await this.requireCurrentUser();
+      await user.reload();
+      return (await this.toAuthResponse(user)).data;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Update the current user's profile
+   */
+  async updateProfile(profileData: UpdateProfileRequest): Promise<UserResponse> {
+    try {
+      const user = await this.requireCurrentUser();
+      await updateProfile(user, { displayName: profileData.displayName ?? null });
+      return { success: true, data: { user: (await this.toAuthResponse(user)).data!.user } };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Change password after confirming the current one
+   */
+  async changePassword(passwordData: ChangePasswordRequest): Promise<ApiResponse> {
+    try {
+      const user = await this.reauthenticate(passwordData.currentPassword);
+      await updatePassword(user, passwordData.newPassword);
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Change email address after confirming the password.
+   * Firebase only switches to the new address once the link sent to it is opened.
+   */
+  async changeEmail(emailData: ChangeEmailRequest): Promise<UserResponse> {
+    try {
+      const user = await this.reauthenticate(emailData.password);
+      await verifyBeforeUpdateEmail(user, emailData.newEmail);
+      return {
+        success: true,
+        data: { user: (await this.toAuthResponse(user)).data!.user },
+        message: `We've sent a verification link to ${emailData.newEmail}.`,
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Permanently delete the current user's account after confirming the password
+   */
+  async deleteAccount(accountData: DeleteAccountRequest): Promise<ApiResponse> {
+    try {
+      const user = await this.reauthenticate(accountData.password);
+      await deleteUser(user);
+      this.signedInUsers.delete(user.uid);
+      return { success: true };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Generate a TOTP secret for the current user to add to an authenticator app
+   */
+  async startTotpEnrollment(): Promise<TotpEnrollmentResponse> {
+    try {
+      const user = await this.requireCurrentUser();
+      const session = await multiFactor(user).getSession();
+      this.pendingTotpSecret = await TotpMultiFactorGenerator.generateSecret(session);
+
+      return {
+        success: true,
+        data: {
+          secret: this.pendingTotpSecret.secretKey,
+          otpauthUrl: this.pendingTotpSecret.generateQrCodeUrl(user.email ?? undefined, MFA_ISSUER),
+        },
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * SMS codes need a reCAPTCHA verifier, so they aren't supported
+   */
+  async startSmsEnrollment(_phoneNumber: string): Promise<ApiResponse> {
+    throw new AuthError('VALIDATION', SMS_MFA_UNSUPPORTED);
+  }
+
+  /**
+   * Finish enrolling the authenticator app. Firebase Auth has no backup codes, so none are returned.
+   */
+  async confirmMfaEnrollment(enrollmentData: ConfirmMfaEnrollmentRequest): Promise<MfaEnrollmentResponse> {
+    try {
+      if (enrollmentData.method === 'sms') {
+        throw new AuthError('VALIDATION', SMS_MFA_UNSUPPORTED);
+      } else if (!this.pendingTotpSecret) {
+        throw new AuthError('EXPIRED_TOKEN', 'Start setting up the authenticator app again.');
+      }
+
+      const user = await this.requireCurrentUser();
+      const assertion = TotpMultiFactorGenerator.assertionForEnrollment(this.pendingTotpSecret, enrollmentData.code);
+      await multiFactor(user).enroll(assertion, 'Authenticator app');
+      this.pendingTotpSecret = null;
+
+      const { data } = await this.toAuthResponse(user, true);
+      return { success: true, data: { user: data!.user, backupCodes: [] } };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Remove every enrolled second factor after confirming the password
+   */
+  async disableMfa(disableData: DisableMfaRequest): Promise<UserResponse> {
+    try {
+      const user = await this.reauthenticate(disableData.password);
+      for (const factor of multiFactor(user).enrolledFactors) {
+        await multiFactor(user).unenroll(factor);
+      }
+
+      const { data } = await this.toAuthResponse(user, true);
+      return { success: true, data: { user: data!.user } };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const firebaseAuthService = new FirebaseAuthService();
+
+// Export class for testing purposes
+export { FirebaseAuthService };
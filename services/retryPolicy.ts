@@ -0,0 +1,91 @@
+/**
+ * When and how often `ApiClient` retries failed requests
+ */
+
+// Requests grouped by how patient retries can be
+export type RequestKind = 'auth' | 'read' | 'write';
+
+export interface RetryPolicy {
+  // Attempts in total, including the first one
+  maxAttempts: number;
+  // Upper bound of the delay before the first retry; doubles with every further retry
+  baseDelayMs: number;
+  // Longest delay between attempts. A server asking to wait longer (Retry-After) isn't retried.
+  maxDelayMs: number;
+  // Timeout of each attempt
+  timeoutMs: number;
+  // HTTP statuses worth another attempt
+  retryStatuses: number[];
+  // Axios error codes of requests that got no response
+  retryErrorCodes: string[];
+}
+
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRY_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ERR_NETWORK'];
+
+export const DEFAULT_RETRY_POLICIES: Record<RequestKind, RetryPolicy> = {
+  // Sign-in, registration and token refresh; someone is waiting, so retry quickly and give up early
+  auth: {
+    maxAttempts: 3,
+    baseDelayMs: 300,
+    maxDelayMs: 2000,
+    timeoutMs: 10000,
+    retryStatuses: RETRY_STATUSES,
+    retryErrorCodes: RETRY_ERROR_CODES,
+  },
+  // GET requests, which can be retried freely
+  read: {
+    maxAttempts: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    timeoutMs: 10000,
+    retryStatuses: RETRY_STATUSES,
+    retryErrorCodes: RETRY_ERROR_CODES,
+  },
+  // Changes to the account; only retried when idempotent or sent with an idempotency key
+  write: {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 5000,
+    timeoutMs: 15000,
+    retryStatuses: RETRY_STATUSES,
+    retryErrorCodes: RETRY_ERROR_CODES,
+  },
+};
+
+/**
+ * Fill in the defaults for any policy settings that were left out
+ */
+export function resolveRetryPolicies(
+  overrides: Partial<Record<RequestKind, Partial<RetryPolicy>>> = {}
+): Record<RequestKind, RetryPolicy> {
+  return {
+    auth: { ...DEFAULT_RETRY_POLICIES.auth, ...overrides.auth },
+    read: { ...DEFAULT_RETRY_POLICIES.read, ...overrides.read },
+    write: { ...DEFAULT_RETRY_POLICIES.write, ...overrides.write },
+  };
+}
+
+/**
+ * Delay before the next attempt after `attempts` have failed, or null if the request shouldn't be retried.
+ * Uses exponential backoff with full jitter, but waits at least as long as the server's Retry-After.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempts: number,
+  retryAfterSeconds?: number,
+  random: () => number = Math.random
+): number | null {
+  if (attempts >= policy.maxAttempts) {
+    return null;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempts - 1));
+  const delay = Math.round(random() * backoff);
+
+  if (retryAfterSeconds === undefined) {
+    return delay;
+  }
+  const retryAfterMs = retryAfterSeconds * 1000;
+  return retryAfterMs > policy.maxDelayMs ? null : Math.max(delay, retryAfterMs);
+}
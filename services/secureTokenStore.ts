@@ -0,0 +1,148 @@
+import * as SecureStore from 'expo-secure-store';
+import * as z from 'zod';
+
+import { SessionRecord, TokenStore } from '@/services/tokenStoreTypes';
+
+// Format of stored sessions; bump it and read the previous version too when it changes
+const SESSION_FORMAT_VERSION = 1;
+
+// SecureStore warns about values over 2048 bytes, and some Android devices fail to store them
+const CHUNK_LENGTH = 2000;
+
+// Each session is written to one of two slots of chunks, alternating so the current one stays intact
+type Slot = 'a' | 'b';
+
+// Points to the slot holding an account's current session, so replacing it switches sessions in one write
+const manifestSchema = z.object({
+  version: z.literal(SESSION_FORMAT_VERSION),
+  slot: z.enum(['a', 'b']),
+  chunks: z.number().int().positive(),
+  checksum: z.string(),
+});
+
+type SessionManifest = z.infer<typeof manifestSchema>;
+
+const getManifestKey = (uid: string) => `session_${uid}`;
+const getChunkKey = (uid: string, slot: Slot, index: number) => `session_chunk_${slot}${index}_${uid}`;
+
+// SecureStore only accepts letters, digits, ".", "-" and "_" in keys
+const toSecureStoreKey = (key: string): string => key.replace(/[^\w.-]/g, '_');
+
+// JSON with non-ASCII characters escaped, so a chunk's length in characters is its size in bytes
+const toAsciiJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/[\u0080-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+// FNV-1a hash of a string, to notice sessions that were cut short or corrupted
+function checksum(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Keeps sessions and everything else in the iOS Keychain / Android Keystore through expo-secure-store.
+ * Each session is one checksummed record, split into chunks when it's too large for a single item.
+ */
+export class SecureTokenStore implements TokenStore {
+  readonly usesRefreshTokenCookie = false;
+
+  async getSession(uid: string): Promise<SessionRecord | null> {
+    const manifest = await this.getManifest(uid);
+    if (!manifest) {
+      return null;
+    }
+
+    const chunks: string[] = [];
+    for (let index = 0; index < manifest.chunks; index++) {
+      const chunk = await this.getItem(getChunkKey(uid, manifest.slot, index));
+      if (chunk === null) {
+        return null;
+      }
+      chunks.push(chunk);
+    }
+
+    const payload = chunks.join('');
+    if (checksum(payload) !== manifest.checksum) {
+      return null;
+    }
+    try {
+      return JSON.parse(payload);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write the session's chunks next to the current ones, then switch over by replacing the manifest,
+   * so a crash at any point leaves either the old or the new session readable
+   */
+  async setSession(uid: string, session: SessionRecord): Promise<void> {
+    const payload = toAsciiJson(session);
+    const previous = await this.getManifest(uid);
+    const slot: Slot = previous?.slot === 'a' ? 'b' : 'a';
+
+    const chunks: string[] = [];
+    for (let start = 0; start < payload.length; start += CHUNK_LENGTH) {
+      chunks.push(payload.slice(start, start + CHUNK_LENGTH));
+    }
+    for (const [index, chunk] of chunks.entries()) {
+      await this.setItem(getChunkKey(uid, slot, index), chunk);
+    }
+
+    const manifest: SessionManifest = {
+      version: SESSION_FORMAT_VERSION,
+      slot,
+      chunks: chunks.length,
+      checksum: checksum(payload),
+    };
+    await this.setItem(getManifestKey(uid), JSON.stringify(manifest));
+
+    // Left over from an interrupted write to this slot, or from the session this one replaced
+    await this.deleteChunks(uid, slot, chunks.length);
+    if (previous) {
+      await this.deleteChunks(uid, previous.slot);
+    }
+  }
+
+  async deleteSession(uid: string): Promise<void> {
+    await this.deleteItem(getManifestKey(uid));
+    await this.deleteChunks(uid, 'a');
+    await this.deleteChunks(uid, 'b');
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return SecureStore.getItemAsync(toSecureStoreKey(key));
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return SecureStore.setItemAsync(toSecureStoreKey(key), value);
+  }
+
+  deleteItem(key: string): Promise<void> {
+    return SecureStore.deleteItemAsync(toSecureStoreKey(key));
+  }
+
+  // Read the manifest, treating one that's corrupt or from an unknown format as no session
+  private async getManifest(uid: string): Promise<SessionManifest | null> {
+    const value = await this.getItem(getManifestKey(uid));
+    if (!value) {
+      return null;
+    }
+    try {
+      const result = manifestSchema.safeParse(JSON.parse(value));
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Delete a slot's chunks from `from` on; they're always written from the first one, so stop at the first gap
+  private async deleteChunks(uid: string, slot: Slot, from = 0): Promise<void> {
+    for (let index = from; (await this.getItem(getChunkKey(uid, slot, index))) !== null; index++) {
+      await this.deleteItem(getChunkKey(uid, slot, index));
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import * as z from 'zod';
+
+import { userSchema } from '@/services/authSchemas';
+import { AuthResponse } from '@/services/authTypes';
+import { sessionSync } from '@/services/sessionSync';
+import { tokenStore } from '@/services/tokenStore';
+
+export type StoredUser = NonNullable<AuthResponse['data']>['user'];
+
+// Everything kept on the device for one signed-in account
+export interface StoredSession {
+  // Empty when the access token didn't outlive the page on web; the next request refreshes it
+  token: string;
+  refreshToken: string;
+  user: StoredUser;
+}
+
+// Uids of all signed-in accounts, and the one requests are currently made for
+const ACCOUNTS_KEY = 'accounts';
+const ACTIVE_ACCOUNT_KEY = 'active_account';
+
+// Keys each account's session was split over before it was stored as one record, suffixed with its uid
+const TOKEN_KEY_PREFIX = 'auth_token_';
+const REFRESH_TOKEN_KEY_PREFIX = 'refresh_token_';
+const USER_KEY_PREFIX = 'user_data_';
+
+// Keys used before several accounts could be signed in at once
+const LEGACY_TOKEN_KEY = 'auth_token';
+const LEGACY_REFRESH_TOKEN_KEY = 'refresh_token';
+const LEGACY_USER_KEY = 'user_data';
+
+// Format of the users stored under the old keys: a bare user object, then a `{ version, user }` record
+const USER_RECORD_VERSION = 2;
+
+const userRecordSchema = z.object({
+  version: z.literal(USER_RECORD_VERSION),
+  user: userSchema,
+});
+
+// Upgrade a stored user record from the version it's keyed under to the next one
+const USER_RECORD_MIGRATIONS: Record<number, (record: any) => unknown> = {
+  // Version 1 was the bare user object
+  1: (user) => ({ version: 2, user }),
+};
+
+const storedSessionSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+  user: userSchema,
+});
+
+const accountIdsSchema = z.array(z.string());
+
+// Records from before the format was versioned have no version field
+function getRecordVersion(record: unknown): number {
+  return record && typeof record === 'object' && 'version' in record && typeof record.version === 'number'
+    ? record.version
+    : 1;
+}
+
+/**
+ * Read a user stored under the old keys, upgrading older formats. Returns null for records that are corrupt,
+ * fail validation, or come from a newer version of the app.
+ */
+function parseUserRecord(value: string): StoredUser | null {
+  let record: unknown;
+  try {
+    record = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  for (let from = getRecordVersion(record); from < USER_RECORD_VERSION; from++) {
+    const migrate = USER_RECORD_MIGRATIONS[from];
+    if (!migrate) {
+      return null;
+    }
+    record = migrate(record);
+  }
+
+  const result = userRecordSchema.safeParse(record);
+  return result.success ? result.data.user : null;
+}
+
+/**
+ * Uids of all accounts with a stored session, in the order they were added
+ */
+export async function getStoredAccountIds(): Promise<string[]> {
+  const accounts = await tokenStore.getItem(ACCOUNTS_KEY);
+  if (!accounts) {
+    return [];
+  }
+  try {
+    const result = accountIdsSchema.safeParse(JSON.parse(accounts));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function getActiveAccountId(): Promise<string | null> {
+  return tokenStore.getItem(ACTIVE_ACCOUNT_KEY);
+}
+
+/**
+ * Make a stored account the one requests are made for, or clear it with `null`
+ */
+export async function setActiveAccountId(uid: string | null): Promise<void> {
+  if (uid) {
+    await tokenStore.setItem(ACTIVE_ACCOUNT_KEY, uid);
+  } else {
+    await tokenStore.deleteItem(ACTIVE_ACCOUNT_KEY);
+  }
+  sessionSync.notify();
+}
+
+/**
+ * Read an account's session. A session that's missing, corrupt or fails validation is deleted,
+ * signing that account out instead of failing startup.
+ */
+export async function getStoredSession(uid: string): Promise<StoredSession | null> {
+  const result = storedSessionSchema.safeParse(await tokenStore.getSession(uid));
+
+  // On web the access token only lives in memory, so a session can also be resumed with its refresh token
+  const canResume =
+    result.success && (!!result.data.token || !!result.data.refreshToken || tokenStore.usesRefreshTokenCookie);
+  if (!result.success || !canResume) {
+    await removeSession(uid);
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Users of all accounts with a stored session
+ */
+export async function getStoredUsers(): Promise<StoredUser[]> {
+  const sessions = await Promise.all((await getStoredAccountIds()).map(getStoredSession));
+  return sessions.filter((session): session is StoredSession => !!session).map((session) => session.user);
+}
+
+/**
+ * Store an account's session, adding the account to the list if it's new.
+ * Doesn't change the active account. Every change to stored sessions is announced through `sessionSync`.
+ */
+export async function saveSession(session: StoredSession): Promise<void> {
+  await tokenStore.setSession(session.user.uid, session);
+
+  const accountIds = await getStoredAccountIds();
+  if (!accountIds.includes(session.user.uid)) {
+    await tokenStore.setItem(ACCOUNTS_KEY, JSON.stringify([...accountIds, session.user.uid]));
+  }
+  sessionSync.notify();
+}
+
+/**
+ * Replace the stored profile of an account, keeping its tokens
+ */
+export async function saveSessionUser(user: StoredUser): Promise<void> {
+  const session = await tokenStore.getSession(user.uid);
+  if (session) {
+    await tokenStore.setSession(user.uid, { ...session, user });
+    sessionSync.notify();
+  }
+}
+
+/**
+ * Delete an account's session, clearing the active account if it was this one
+ */
+export async function removeSession(uid: string): Promise<void> {
+  await tokenStore.deleteSession(uid);
+
+  const accountIds = await getStoredAccountIds();
+  await tokenStore.setItem(ACCOUNTS_KEY, JSON.stringify(accountIds.filter((id) => id !== uid)));
+
+  if ((await getActiveAccountId()) === uid) {
+    await setActiveAccountId(null);
+  } else {
+    sessionSync.notify();
+  }
+}
+
+// Tokens of the active account, attached to API requests
+export async function getActiveToken(): Promise<string | null> {
+  const uid = await getActiveAccountId();
+  return (uid && (await tokenStore.getSession(uid))?.token) || null;
+}
+
+export async function getActiveRefreshToken(): Promise<string | null> {
+  const uid = await getActiveAccountId();
+  return (uid && (await tokenStore.getSession(uid))?.refreshToken) || null;
+}
+
+// Store a session found under old keys as a record, dropping it if its user can't be read
+async function migrateSessionKeys(tokenKey: string, refreshTokenKey: string, userKey: string): Promise<StoredUser | null> {
+  const token = await tokenStore.getItem(tokenKey);
+  const refreshToken = await tokenStore.getItem(refreshTokenKey);
+  const user = await tokenStore.getItem(userKey);
+  if (!token && !user) {
+    return null;
+  }
+
+  const storedUser = user ? parseUserRecord(user) : null;
+  if (token && storedUser) {
+    await saveSession({ token, refreshToken: refreshToken ?? '', user: storedUser });
+  }
+
+  // The record is written before the old keys are deleted, so an interrupted migration is picked up next launch
+  await tokenStore.deleteItem(tokenKey);
+  await tokenStore.deleteItem(refreshTokenKey);
+  await tokenStore.deleteItem(userKey);
+  return token ? storedUser : null;
+}
+
+/**
+ * Move sessions stored by older versions into session records: the one under the single-account keys,
+ * which becomes active, and those each account's token, refresh token and user were split over
+ */
+export async function migrateLegacySession(): Promise<void> {
+  const legacyUser = await migrateSessionKeys(LEGACY_TOKEN_KEY, LEGACY_REFRESH_TOKEN_KEY, LEGACY_USER_KEY);
+  if (legacyUser) {
+    await setActiveAccountId(legacyUser.uid);
+  }
+
+  for (const uid of await getStoredAccountIds()) {
+    await migrateSessionKeys(TOKEN_KEY_PREFIX + uid, REFRESH_TOKEN_KEY_PREFIX + uid, USER_KEY_PREFIX + uid);
+  }
+}
@@ -0,0 +1,26 @@
+import { AppState } from 'react-native';
+
+import { SessionSync } from '@/services/sessionSyncTypes';
+
+/**
+ * Reports a possible session change each time the app returns from the background; see `sessionSync.web.ts` for web.
+ * Nothing else in the app's process writes sessions, so there's no one to notify.
+ */
+export const sessionSync: SessionSync = {
+  subscribe: (listener) => {
+    // Only 'background' counts: system prompts, including the biometric one, make the app 'inactive'
+    let wasInBackground = false;
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        wasInBackground = true;
+      } else if (state === 'active' && wasInBackground) {
+        wasInBackground = false;
+        listener();
+      }
+    });
+
+    return () => subscription.remove();
+  },
+  notify: () => {},
+};
@@ -0,0 +1,68 @@
+import { SessionChangeListener, SessionSync } from '@/services/sessionSyncTypes';
+
+const CHANNEL_NAME = 'auth_session';
+
+// Written on every change in browsers without BroadcastChannel, so other tabs get a storage event
+const CHANGE_STORAGE_KEY = 'auth_session_changed';
+
+// Static rendering runs without a browser, where there are no other tabs
+const hasWindow = typeof window !== 'undefined';
+
+/**
+ * Tells the browser's other tabs about session changes through a BroadcastChannel, falling back to
+ * storage events. Neither reaches the tab that made the change.
+ */
+export class BrowserSessionSync implements SessionSync {
+  private channel: BroadcastChannel | null = null;
+
+  subscribe(listener: SessionChangeListener): () => void {
+    const channel = this.getChannel();
+    if (channel) {
+      const onMessage = () => listener();
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    }
+
+    if (!hasWindow) {
+      return () => {};
+    }
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === CHANGE_STORAGE_KEY) {
+        listener();
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }
+
+  notify(): void {
+    const channel = this.getChannel();
+    if (channel) {
+      channel.postMessage(null);
+    } else if (hasWindow) {
+      // Storage events only fire when the value changes
+      window.localStorage.setItem(CHANGE_STORAGE_KEY, `${Date.now()}-${Math.random()}`);
+    }
+  }
+
+  /**
+   * Stop sending and receiving changes
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  // Open the channel on first use, so nothing is listening before the app needs it
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && hasWindow && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+    }
+    return this.channel;
+  }
+}
+
+/**
+ * Session changes made by other tabs of the app
+ */
+export const sessionSync: SessionSync = new BrowserSessionSync();
@@ -0,0 +1,14 @@
+export type SessionChangeListener = () => void;
+
+/**
+ * Tells the app when stored sessions may have changed outside it, so it can read them again:
+ * another tab on web, or the time the app spent in the background on iOS and Android.
+ * Get the platform's implementation from `services/sessionSync`.
+ */
+export interface SessionSync {
+  // Call `listener` whenever the stored sessions may have changed elsewhere; returns an unsubscribe function
+  subscribe(listener: SessionChangeListener): () => void;
+
+  // Let others know the stored sessions were just changed
+  notify(): void;
+}
@@ -0,0 +1,90 @@
+import { Platform } from 'react-native';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+
+import { authBackendType } from '@/services/authBackend';
+import { AuthError } from '@/services/authErrors';
+import { ProviderLoginRequest, SocialProvider } from '@/services/authTypes';
+
+// Names shown on sign-in buttons and prompts
+export const SOCIAL_PROVIDER_NAMES: Record<SocialProvider, string> = {
+  google: 'Google',
+  apple: 'Apple',
+};
+
+// OAuth client IDs for Google sign-in, one per platform
+export const GOOGLE_CLIENT_IDS = {
+  webClientId: process.env.GOOGLE_WEB_CLIENT_ID,
+  iosClientId: process.env.GOOGLE_IOS_CLIENT_ID,
+  androidClientId: process.env.GOOGLE_ANDROID_CLIENT_ID,
+};
+
+// The mock backend and the Firebase Auth emulator accept fake provider tokens instead of real sign-in flows.
+// Only in development builds, so release builds don't ship the fake providers.
+export const usesFakeSocialProviders =
+  __DEV__ &&
+  (authBackendType === 'mock' || (authBackendType === 'firebase' && !!process.env.FIREBASE_AUTH_EMULATOR_HOST));
+
+/**
+ * Whether Google sign-in has a client ID for the current platform
+ */
+export function isGoogleSignInConfigured(): boolean {
+  const clientId = Platform.select({
+    ios: GOOGLE_CLIENT_IDS.iosClientId,
+    android: GOOGLE_CLIENT_IDS.androidClientId,
+    default: GOOGLE_CLIENT_IDS.webClientId,
+  });
+  return !!clientId;
+}
+
+/**
+ * Run the Sign in with Apple flow. Resolves to null if the user cancels.
+ */
+export async function getAppleCredential(): Promise<ProviderLoginRequest | null> {
+  // Apple signs a hash of the nonce into the ID token; the backend checks it against the raw value
+  const nonce = Crypto.randomUUID();
+  const hashedNonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, nonce);
+
+  try {
+    const credential = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce: hashedNonce,
+    });
+
+    if (!credential.identityToken) {
+      throw new AuthError('UNKNOWN', 'Apple sign-in did not return an identity token');
+    }
+
+    const displayName = credential.fullName
+      ? AppleAuthentication.formatFullName(credential.fullName).trim() || undefined
+      : undefined;
+
+    return { provider: 'apple', idToken: credential.identityToken, nonce, displayName };
+  } catch (error: any) {
+    if (error?.code === 'ERR_REQUEST_CANCELED') {
+      return null;
+    }
+    throw AuthError.from(error, 'Apple sign-in failed');
+  }
+}
+
+/**
+ * Credential for a fake provider sign-in with the demo account's email,
+ * so the account linking flow can be tried straight away
+ */
+export function getFakeProviderCredential(provider: SocialProvider): ProviderLoginRequest {
+  // Required here, behind `__DEV__`, so release builds don't ship the mocks
+  if (!__DEV__) {
+    throw new AuthError('UNKNOWN', 'Fake sign-in providers are only available in development builds');
+  }
+  const { createFakeProviderCredential } = require('@/mocks/fakeProviders') as typeof import('@/mocks/fakeProviders');
+  const { DEFAULT_MOCK_USER } = require('@/mocks/mockAuthServer') as typeof import('@/mocks/mockAuthServer');
+
+  return createFakeProviderCredential(provider, {
+    email: DEFAULT_MOCK_USER.email,
+    name: DEFAULT_MOCK_USER.displayName,
+  });
+}
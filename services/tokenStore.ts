@@ -0,0 +1,7 @@
+import { SecureTokenStore } from '@/services/secureTokenStore';
+import { TokenStore } from '@/services/tokenStoreTypes';
+
+/**
+ * Storage for sessions and other auth data on this platform; see `tokenStore.web.ts` for web
+ */
+export const tokenStore: TokenStore = new SecureTokenStore();
@@ -0,0 +1,13 @@
+import Constants from 'expo-constants';
+
+import { TokenStore } from '@/services/tokenStoreTypes';
+import { RefreshTokenStorage, WebTokenStore } from '@/services/webTokenStore';
+
+// Keep the refresh token in an httpOnly cookie set by the backend, or encrypted in IndexedDB (the default)
+const refreshTokenStorage: RefreshTokenStorage =
+  Constants.expoConfig?.extra?.webRefreshTokenStorage || process.env.WEB_REFRESH_TOKEN_STORAGE || 'indexedDb';
+
+/**
+ * Storage for sessions and other auth data in the browser
+ */
+export const tokenStore: TokenStore = new WebTokenStore({ refreshTokenStorage });
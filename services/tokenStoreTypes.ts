@@ -0,0 +1,29 @@
+// One account's session as the token store keeps it
+export interface SessionRecord {
+  token: string;
+  refreshToken: string;
+  // The account's profile; `sessionStorage` validates it when read
+  user: unknown;
+}
+
+/**
+ * Where sessions and other auth data are kept on the device: `SecureTokenStore` on iOS and Android,
+ * `WebTokenStore` on web and `MemoryTokenStore` in tests. Get the platform's store from `services/tokenStore`;
+ * nothing else should touch the underlying storage.
+ */
+export interface TokenStore {
+  // The backend keeps the refresh token in an httpOnly cookie, so the app never sees or sends it
+  readonly usesRefreshTokenCookie: boolean;
+
+  // An account's session, written and removed as a whole so a crash can't leave it half-updated.
+  // Null when there's none or it fails the integrity check. The token or refresh token may be empty,
+  // e.g. a web access token after a reload.
+  getSession(uid: string): Promise<SessionRecord | null>;
+  setSession(uid: string, session: SessionRecord): Promise<void>;
+  deleteSession(uid: string): Promise<void>;
+
+  // Other data kept across launches, such as the account list and settings
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  deleteItem(key: string): Promise<void>;
+}
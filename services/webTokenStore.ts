@@ -0,0 +1,169 @@
+import { SessionRecord, TokenStore } from '@/services/tokenStoreTypes';
+
+// Where the web app keeps refresh tokens
+export type RefreshTokenStorage = 'cookie' | 'indexedDb';
+
+export interface WebTokenStoreOptions {
+  // "cookie" when the backend sets the refresh token as an httpOnly cookie, so scripts can't read it;
+  // "indexedDb" to store it encrypted with a key that can't be exported from the browser
+  refreshTokenStorage?: RefreshTokenStorage;
+}
+
+const DATABASE_NAME = 'auth';
+const OBJECT_STORE_NAME = 'secrets';
+const ENCRYPTION_KEY_ID = 'encryption_key';
+const SESSION_KEY_PREFIX = 'session_';
+
+// Refresh token encrypted with AES-GCM
+interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Session as stored in IndexedDB, written with a single put so it's never half-updated
+interface StoredWebSession {
+  user: unknown;
+  // Null when the backend keeps the refresh token in a cookie
+  refreshToken: EncryptedValue | null;
+}
+
+// Static rendering runs without a browser, where nothing can be stored
+const hasWindow = typeof window !== 'undefined';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a single request against the object store and resolve with its result
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(database.transaction(OBJECT_STORE_NAME, mode).objectStore(OBJECT_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Keeps auth data in the browser. Access tokens only live in memory, so a reload gets a new one
+ * with the refresh token. Sessions go in IndexedDB, and other data, which isn't secret, in localStorage.
+ */
+export class WebTokenStore implements TokenStore {
+  readonly usesRefreshTokenCookie: boolean;
+  private tokens = new Map<string, string>();
+  private encryptionKey: Promise<CryptoKey> | null = null;
+
+  constructor(options: WebTokenStoreOptions = {}) {
+    this.usesRefreshTokenCookie = options.refreshTokenStorage === 'cookie';
+  }
+
+  async getSession(uid: string): Promise<SessionRecord | null> {
+    if (!hasWindow) {
+      return null;
+    }
+
+    const stored = await runRequest<StoredWebSession | undefined>('readonly', (store) =>
+      store.get(SESSION_KEY_PREFIX + uid)
+    );
+    if (!stored) {
+      return null;
+    }
+    return {
+      token: this.tokens.get(uid) ?? '',
+      refreshToken: stored.refreshToken ? await this.decrypt(stored.refreshToken) : '',
+      user: stored.user,
+    };
+  }
+
+  async setSession(uid: string, session: SessionRecord): Promise<void> {
+    this.tokens.set(uid, session.token);
+    if (!hasWindow) {
+      return;
+    }
+
+    const stored: StoredWebSession = {
+      user: session.user,
+      refreshToken: this.usesRefreshTokenCookie ? null : await this.encrypt(session.refreshToken),
+    };
+    await runRequest('readwrite', (store) => store.put(stored, SESSION_KEY_PREFIX + uid));
+  }
+
+  async deleteSession(uid: string): Promise<void> {
+    this.tokens.delete(uid);
+    if (hasWindow) {
+      await runRequest('readwrite', (store) => store.delete(SESSION_KEY_PREFIX + uid));
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return hasWindow ? window.localStorage.getItem(key) : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (hasWindow) {
+      window.localStorage.setItem(key, value);
+    }
+  }
+
+  async deleteItem(key: string): Promise<void> {
+    if (hasWindow) {
+      window.localStorage.removeItem(key);
+    }
+  }
+
+  private async encrypt(value: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getEncryptionKey(),
+      new TextEncoder().encode(value)
+    );
+    return { iv, data };
+  }
+
+  // Decrypt a refresh token, or return an empty one if the key it was encrypted with has been lost
+  private async decrypt(encrypted: EncryptedValue): Promise<string> {
+    try {
+      const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: encrypted.iv },
+        await this.getEncryptionKey(),
+        encrypted.data
+      );
+      return new TextDecoder().decode(data);
+    } catch {
+      return '';
+    }
+  }
+
+  // Load the key refresh tokens are encrypted with, creating it on first use. It's stored as a
+  // non-extractable CryptoKey, so scripts can use it in this browser but can't read it out.
+  private getEncryptionKey(): Promise<CryptoKey> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = (async () => {
+        const storedKey = await runRequest<CryptoKey | undefined>('readonly', (store) => store.get(ENCRYPTION_KEY_ID));
+        if (storedKey) {
+          return storedKey;
+        }
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await runRequest('readwrite', (store) => store.put(key, ENCRYPTION_KEY_ID));
+        return key;
+      })();
+      this.encryptionKey.catch(() => {
+        this.encryptionKey = null;
+      });
+    }
+    return this.encryptionKey;
+  }
+}
@@ -0,0 +1,50 @@
+import { getAuthRedirect, rememberIntendedRoute, takeIntendedRoute, toRouteUrl } from '../authRedirect';
+
+const signedOut = { isAuthenticated: false, needsMfa: false, needsVerification: false, isAddingAccount: false };
+const signedIn = { ...signedOut, isAuthenticated: true };
+
+describe('getAuthRedirect', () => {
+  it('only redirects signed-out users outside the sign-in screens', () => {
+    expect(getAuthRedirect(['(tabs)', 'settings'], signedOut)).toBe('login');
+    expect(getAuthRedirect(['sessions'], signedOut)).toBe('login');
+    expect(getAuthRedirect(['(auth)', 'register'], signedOut)).toBeNull();
+  });
+
+  it('keeps signed-in users on the screen they opened', () => {
+    expect(getAuthRedirect(['(tabs)', 'settings'], signedIn)).toBeNull();
+    expect(getAuthRedirect(['admin'], signedIn)).toBeNull();
+    expect(getAuthRedirect(['(auth)', 'login'], signedIn)).toBe('app');
+    expect(getAuthRedirect([], signedIn)).toBe('app');
+  });
+
+  it('lets everyone through to public routes', () => {
+    expect(getAuthRedirect(['(auth)', 'reset-password'], signedIn)).toBeNull();
+    expect(getAuthRedirect(['(auth)', 'verify-email'], { ...signedIn, needsMfa: true })).toBeNull();
+    expect(getAuthRedirect(['+not-found'], signedOut)).toBeNull();
+  });
+
+  it('sends users to pending sign-in steps', () => {
+    expect(getAuthRedirect(['(auth)', 'login'], { ...signedOut, needsMfa: true })).toBe('mfa');
+    expect(getAuthRedirect(['(auth)', 'mfa'], { ...signedOut, needsMfa: true })).toBeNull();
+    expect(getAuthRedirect(['(tabs)'], { ...signedIn, needsVerification: true })).toBe('verify-email');
+    expect(getAuthRedirect(['(tabs)'], { ...signedIn, isAddingAccount: true })).toBe('login');
+  });
+});
+
+describe('toRouteUrl', () => {
+  it('keeps the query but drops params that are part of the path', () => {
+    expect(toRouteUrl('/orders/42', { id: '42', tab: 'items', tag: ['a b', 'c'] }, ['orders', '[id]'])).toBe(
+      '/orders/42?tab=items&tag=a%20b&tag=c'
+    );
+    expect(toRouteUrl('/settings', {}, ['(tabs)', 'settings'])).toBe('/settings');
+  });
+});
+
+describe('intended route', () => {
+  it('is returned once', () => {
+    rememberIntendedRoute('/admin');
+
+    expect(takeIntendedRoute()).toBe('/admin');
+    expect(takeIntendedRoute()).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { decodeJwt, getTokenExpiry } from '../jwt';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const makeToken = (payload: object) => `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+
+describe('decodeJwt', () => {
+  it('decodes the payload claims', () => {
+    expect(decodeJwt(makeToken({ sub: 'user-1', name: 'Zoë' }))).toEqual({ sub: 'user-1', name: 'Zoë' });
+  });
+
+  it('returns null for malformed tokens', () => {
+    expect(decodeJwt('not-a-token')).toBeNull();
+    expect(decodeJwt('header.%%%.signature')).toBeNull();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  it('converts the exp claim to milliseconds', () => {
+    expect(getTokenExpiry(makeToken({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+  });
+
+  it('returns null when the token has no exp claim', () => {
+    expect(getTokenExpiry(makeToken({ sub: 'user-1' }))).toBeNull();
+  });
+});
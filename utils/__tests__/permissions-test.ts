@@ -0,0 +1,63 @@
+import { canAccess, getAccessClaims, hasPermission, hasRole, withTokenClaims } from '../permissions';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const makeToken = (payload: object) => `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+
+const admin = { roles: ['admin'], permissions: ['admin:view', 'premium:view'] };
+const member = { roles: [], permissions: [] };
+
+describe('getAccessClaims', () => {
+  it('reads role and permission lists', () => {
+    expect(getAccessClaims({ roles: ['admin', 42], permissions: ['admin:view'] })).toEqual({
+      roles: ['admin'],
+      permissions: ['admin:view'],
+    });
+  });
+
+  it('accepts a single role and a space-separated scope', () => {
+    expect(getAccessClaims({ role: 'premium', scope: 'premium:view profile' })).toEqual({
+      roles: ['premium'],
+      permissions: ['premium:view', 'profile'],
+    });
+  });
+});
+
+describe('withTokenClaims', () => {
+  it("merges the token's claims into the user's own", () => {
+    const user = { uid: 'user-1', roles: ['premium'], permissions: ['premium:view'] };
+    const token = makeToken({ roles: ['admin'], permissions: ['admin:view', 'premium:view'] });
+
+    expect(withTokenClaims(user, token)).toEqual({
+      uid: 'user-1',
+      roles: ['premium', 'admin'],
+      permissions: ['premium:view', 'admin:view'],
+    });
+  });
+
+  it('leaves the user unchanged without a readable token', () => {
+    const user = { uid: 'user-1', roles: ['premium'] };
+    expect(withTokenClaims(user, null)).toBe(user);
+    expect(withTokenClaims(user, 'not-a-token')).toBe(user);
+  });
+});
+
+describe('access checks', () => {
+  it('needs any one of the roles', () => {
+    expect(hasRole(admin, ['premium', 'admin'])).toBe(true);
+    expect(hasRole(member, 'admin')).toBe(false);
+  });
+
+  it('needs every one of the permissions', () => {
+    expect(hasPermission(admin, ['admin:view', 'premium:view'])).toBe(true);
+    expect(hasPermission({ permissions: ['premium:view'] }, ['admin:view', 'premium:view'])).toBe(false);
+  });
+
+  it('combines roles and permissions, and denies signed-out users', () => {
+    expect(canAccess(admin, { roles: ['admin'], permissions: ['premium:view'] })).toBe(true);
+    expect(canAccess(member, {})).toBe(true);
+    expect(canAccess(member, { permissions: ['premium:view'] })).toBe(false);
+    expect(canAccess(null, {})).toBe(false);
+  });
+});
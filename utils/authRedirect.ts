@@ -0,0 +1,76 @@
+import { Href } from 'expo-router';
+
+import { PUBLIC_AUTH_ROUTES } from '@/constants/Auth';
+
+// Where the auth state can send the user
+export type AuthDestination = 'mfa' | 'login' | 'verify-email' | 'app';
+
+export interface AuthRouteState {
+  isAuthenticated: boolean;
+  needsMfa: boolean;
+  needsVerification: boolean;
+  isAddingAccount: boolean;
+}
+
+/**
+ * Where the auth state requires the user to go from the current route, or null if they can stay.
+ * Only users in the wrong route group are redirected, so deep links and reloads keep their screen.
+ */
+export function getAuthRedirect(segments: string[], state: AuthRouteState): AuthDestination | null {
+  const route = segments[segments.length - 1];
+  const inAuthGroup = segments[0] === '(auth)';
+
+  // Screens opened from email links handle their own navigation, signed in or not
+  if (route && (PUBLIC_AUTH_ROUTES.includes(route) || route === '+not-found')) {
+    return null;
+  }
+
+  if (state.needsMfa) {
+    // Credentials were accepted; finish signing in with the second factor
+    return route === 'mfa' ? null : 'mfa';
+  }
+  if (!state.isAuthenticated || state.isAddingAccount) {
+    // Signed-out users, and users signing in to another account, can move between the sign-in screens
+    return inAuthGroup ? null : 'login';
+  }
+  if (state.needsVerification) {
+    // Keep unverified users out of the app until they confirm their email
+    return 'verify-email';
+  }
+  // Signed in: leave the sign-in screens and the bare root URL
+  return inAuthGroup || segments.length === 0 ? 'app' : null;
+}
+
+/**
+ * Rebuild the URL of the current route, keeping its query but not the params already in the path
+ */
+export function toRouteUrl(
+  pathname: string,
+  params: Record<string, string | string[] | undefined>,
+  segments: string[]
+): string {
+  const pathParams = new Set(
+    segments.filter((segment) => segment.startsWith('[')).map((segment) => segment.replace(/^\[(\.\.\.)?|\]$/g, ''))
+  );
+  const query = Object.entries(params)
+    .filter(([name]) => !pathParams.has(name))
+    .flatMap(([name, value]) => [value ?? []].flat().map((item) => `${encodeURIComponent(name)}=${encodeURIComponent(item)}`));
+
+  return query.length ? `${pathname}?${query.join('&')}` : pathname;
+}
+
+// Route a signed-out user tried to open, to return to once they have signed in
+let intendedRoute: Href | null = null;
+
+export function rememberIntendedRoute(url: string): void {
+  intendedRoute = url as Href;
+}
+
+/**
+ * Get the remembered route and forget it, so it's only returned to once
+ */
+export function takeIntendedRoute(): Href | null {
+  const route = intendedRoute;
+  intendedRoute = null;
+  return route;
+}
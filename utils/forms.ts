@@ -0,0 +1,21 @@
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+
+import { isAuthError } from '@/services/authErrors';
+
+/**
+ * Show server-side validation errors next to the matching form fields.
+ * Returns true if any field error was applied.
+ */
+export function applyFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: Path<T>[]
+): boolean {
+  if (!isAuthError(error) || !error.fieldErrors) {
+    return false;
+  }
+
+  const matches = fields.filter((field) => error.fieldErrors?.[field]);
+  matches.forEach((field) => setError(field, { type: 'server', message: error.fieldErrors![field] }));
+  return matches.length > 0;
+}
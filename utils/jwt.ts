@@ -0,0 +1,45 @@
+/**
+ * Minimal JWT helpers. Tokens are decoded only to read their claims on the client;
+ * signature verification is always the backend's responsibility.
+ */
+
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  [claim: string]: unknown;
+}
+
+// Decode a base64url segment into a UTF-8 string
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Array.from(binary, (char) => '%' + char.charCodeAt(0).toString(16).padStart(2, '0'));
+  return decodeURIComponent(bytes.join(''));
+}
+
+/**
+ * Decode the payload of a JWT, returning null if the token is malformed
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(payload));
+    return claims && typeof claims === 'object' ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the expiry of a JWT as a millisecond timestamp, or null if it has no `exp` claim
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
@@ -0,0 +1,35 @@
+import * as z from 'zod';
+
+/**
+ * Password rules shared by every screen that sets a new password
+ */
+export const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/\d/, 'Password must contain at least one number');
+
+export interface PasswordStrength {
+  strength: number;
+  text: string;
+  color: string;
+}
+
+// Highest score returned by getPasswordStrength
+export const MAX_PASSWORD_STRENGTH = 5;
+
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (!password) return { strength: 0, text: '', color: 'transparent' };
+
+  let strength = 0;
+  if (password.length >= 8) strength++;
+  if (/[A-Z]/.test(password)) strength++;
+  if (/[a-z]/.test(password)) strength++;
+  if (/\d/.test(password)) strength++;
+  if (/[^A-Za-z0-9]/.test(password)) strength++;
+
+  if (strength <= 2) return { strength, text: 'Weak', color: '#ff4444' };
+  if (strength <= 3) return { strength, text: 'Fair', color: '#ffaa00' };
+  if (strength <= 4) return { strength, text: 'Good', color: '#00aaff' };
+  return { strength, text: 'Strong', color: '#00ff00' };
+};
@@ -0,0 +1,78 @@
+import { decodeJwt } from '@/utils/jwt';
+
+// Any user shape carrying access claims
+export interface AccessClaims {
+  roles?: string[];
+  permissions?: string[];
+}
+
+// What a screen or layout needs; a user must hold one of the roles and every permission listed
+export interface AccessRequirement {
+  roles?: string[];
+  permissions?: string[];
+}
+
+// Claims can be a list, or a space-separated string like OAuth's `scope`
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  return [];
+}
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+/**
+ * Read roles and permissions from token claims (`roles`/`role` and `permissions`/`scope`)
+ */
+export function getAccessClaims(claims: Record<string, unknown>): Required<AccessClaims> {
+  return {
+    roles: toStringList(claims.roles ?? claims.role),
+    permissions: toStringList(claims.permissions ?? claims.scope),
+  };
+}
+
+/**
+ * Add the roles and permissions granted in an access token to a user's own
+ */
+export function withTokenClaims<T extends AccessClaims>(user: T, token: string | null | undefined): T {
+  const claims = token ? decodeJwt(token) : null;
+  if (!claims) {
+    return user;
+  }
+
+  const { roles, permissions } = getAccessClaims(claims);
+  return { ...user, roles: union(user.roles, roles), permissions: union(user.permissions, permissions) };
+}
+
+/**
+ * Whether the user holds any of the given roles
+ */
+export function hasRole(user: AccessClaims | null | undefined, role: string | string[]): boolean {
+  const roles = Array.isArray(role) ? role : [role];
+  return roles.some((item) => !!user?.roles?.includes(item));
+}
+
+/**
+ * Whether the user holds every one of the given permissions
+ */
+export function hasPermission(user: AccessClaims | null | undefined, permission: string | string[]): boolean {
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  return permissions.every((item) => !!user?.permissions?.includes(item));
+}
+
+/**
+ * Whether the user meets a requirement; an empty requirement only needs a signed-in user
+ */
+export function canAccess(user: AccessClaims | null | undefined, requirement: AccessRequirement): boolean {
+  if (!user) {
+    return false;
+  }
+  if (requirement.roles?.length && !hasRole(user, requirement.roles)) {
+    return false;
+  }
+  return hasPermission(user, requirement.permissions ?? []);
+}